@@ -0,0 +1,59 @@
+import { Handle, Position } from "@xyflow/react";
+
+const BYPRODUCT_HANDLE_COLOR = "#f59e0b";
+
+interface ByproductOutput {
+	itemId: number;
+	itemName: string;
+}
+
+/** Source handles on the right edge, one per byproduct that feeds another node */
+export function ByproductOutputHandles({
+	outputs,
+}: {
+	outputs: ByproductOutput[];
+}) {
+	return (
+		<>
+			{outputs.map((output, i) => (
+				<Handle
+					key={`byproduct-${output.itemId}`}
+					type="source"
+					position={Position.Right}
+					id={`byproduct-${output.itemId}`}
+					style={{
+						top: `${((i + 1) / (outputs.length + 1)) * 100}%`,
+						background: BYPRODUCT_HANDLE_COLOR,
+					}}
+					className="w-3 h-3"
+					title={output.itemName}
+				/>
+			))}
+		</>
+	);
+}
+
+/** Target handle on the left edge for byproducts received from other nodes */
+export function ByproductInputHandle({ supply }: { supply: number }) {
+	if (supply <= 0) return null;
+
+	return (
+		<Handle
+			type="target"
+			position={Position.Left}
+			id="byproduct-in"
+			style={{ background: BYPRODUCT_HANDLE_COLOR }}
+			className="w-3 h-3"
+		/>
+	);
+}
+
+export function ByproductSupplyLabel({ supply }: { supply: number }) {
+	if (supply <= 0) return null;
+
+	return (
+		<div className="text-xs text-amber-400">
+			♻️ {supply.toFixed(2)}/s from byproducts
+		</div>
+	);
+}
@@ -13,6 +13,7 @@ import { useCalculator } from "@/hooks/use-calculator";
 import { buildGraphFromState } from "@/lib/graph/builder";
 import { ExtractionNode } from "./ExtractionNode";
 import { FlowEdge } from "./FlowEdge";
+import { GatheringNode } from "./GatheringNode";
 import { MiningNode } from "./MiningNode";
 import { RecipeNode } from "./RecipeNode";
 
@@ -20,6 +21,7 @@ const nodeTypes = {
 	recipe: RecipeNode,
 	mining: MiningNode,
 	extraction: ExtractionNode,
+	gathering: GatheringNode,
 };
 
 const edgeTypes = {
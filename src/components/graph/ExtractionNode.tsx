@@ -1,10 +1,21 @@
 import { Handle, type Node, type NodeProps, Position } from "@xyflow/react";
 import { useState } from "react";
+import {
+	ByproductInputHandle,
+	ByproductSupplyLabel,
+} from "@/components/graph/ByproductHandles";
 import { RateEditPopover } from "@/components/graph/RateEditPopover";
 import { GameIcon } from "@/components/ui/GameIcon";
 import { useCalculator } from "@/hooks/use-calculator";
+import {
+	MIN_OIL_SEEP_YIELD,
+	OIL_EXTRACTOR_ITEM_ID,
+	ORBITAL_COLLECTOR_ITEM_ID,
+	WATER_PUMP_ITEM_ID,
+} from "@/lib/calculator/extraction";
 import { DSPData } from "@/lib/data/dsp-data";
-import { cn } from "@/lib/utils";
+import type { Theme } from "@/lib/data/models";
+import { cn, formatPower } from "@/lib/utils";
 
 interface ExtractionNodeData extends Record<string, unknown> {
 	elementId: string;
@@ -12,18 +23,52 @@ interface ExtractionNodeData extends Record<string, unknown> {
 	itemName: string;
 	requiredRate: number;
 	actualRate: number;
+	facilityItemId: number | null;
 	facilityCount: number;
+	themeId: number;
+	fuelShare: number;
+	seepYield: number;
+	power: number;
 	cycleDuration: number;
 	perCycleAmount: number;
 	isRoot: boolean;
 	targetId: string | null;
+	byproductSupply: number;
 }
 
 type ExtractionNode = Node<ExtractionNodeData, "extraction">;
 
+const FACILITY_LABELS: Record<number, string> = {
+	[ORBITAL_COLLECTOR_ITEM_ID]: "collectors",
+	[OIL_EXTRACTOR_ITEM_ID]: "extractors",
+	[WATER_PUMP_ITEM_ID]: "pumps",
+};
+
+// Themes share display names, so list what each one yields
+function formatTheme(theme: Theme): string {
+	const gases = theme.GasItems.map(
+		(itemId, index) =>
+			`${DSPData.getItemById(itemId)?.Name} ${theme.GasSpeeds[index]}`,
+	);
+	return `${theme.DisplayName} (${gases.join(", ")})`;
+}
+
 export function ExtractionNode({ data, selected }: NodeProps<ExtractionNode>) {
-	const { updateTargetRate } = useCalculator();
+	const { updateTargetRate, setElementExtractionTheme, setElementSeepYield } =
+		useCalculator();
 	const item = DSPData.getItemById(data.itemId);
+	const facility = data.facilityItemId
+		? DSPData.getItemById(data.facilityItemId)
+		: null;
+	const themes = DSPData.getGasGiantThemes(data.itemId);
+	const isOil = data.facilityItemId === OIL_EXTRACTOR_ITEM_ID;
+	// Gas giants are picked above; pumps and extractors just list where they work
+	const planets =
+		themes.length > 0
+			? []
+			: isOil
+				? DSPData.getOilThemes()
+				: DSPData.getWaterThemes(data.itemId);
 	const [showRate, setShowRate] = useState(false);
 
 	return (
@@ -41,6 +86,7 @@ export function ExtractionNode({ data, selected }: NodeProps<ExtractionNode>) {
 				id="output"
 				className="w-3 h-3"
 			/>
+			<ByproductInputHandle supply={data.byproductSupply ?? 0} />
 
 			<div className="flex items-center gap-2">
 				{item && <GameIcon name={item.Name} size={32} />}
@@ -82,14 +128,67 @@ export function ExtractionNode({ data, selected }: NodeProps<ExtractionNode>) {
 					)}
 				</div>
 				{data.facilityCount > 0 && (
-					<div>
-						×
-						{Number.isInteger(data.facilityCount)
-							? data.facilityCount
-							: data.facilityCount.toFixed(2)}{" "}
-						collectors
+					<div className="flex items-center gap-1">
+						{facility && <GameIcon name={facility.Name} size={18} />}
+						<span>
+							×
+							{Number.isInteger(data.facilityCount)
+								? data.facilityCount
+								: data.facilityCount.toFixed(2)}{" "}
+							{FACILITY_LABELS[data.facilityItemId ?? 0] ?? "collectors"}
+						</span>
+					</div>
+				)}
+				{isOil && (
+					<label className="flex items-center justify-between gap-1">
+						<span>Seep yield/s</span>
+						<input
+							type="number"
+							defaultValue={data.seepYield}
+							min={MIN_OIL_SEEP_YIELD}
+							step={0.1}
+							onClick={(e) => e.stopPropagation()}
+							onBlur={(e) => {
+								const seepYield = Number(e.target.value);
+								if (seepYield > 0 && seepYield !== data.seepYield) {
+									setElementSeepYield(data.elementId, seepYield);
+								}
+							}}
+							className="nodrag w-16 bg-gray-800 border border-gray-700 rounded px-1 py-0.5 text-xs text-gray-100"
+						/>
+					</label>
+				)}
+				{planets.length > 0 && (
+					<div
+						className="truncate"
+						title={planets.map((theme) => theme.DisplayName).join(", ")}
+					>
+						🪐 {planets.map((theme) => theme.DisplayName).join(", ")}
 					</div>
 				)}
+				{(data.power ?? 0) > 0 && (
+					<div className="text-yellow-400">⚡ {formatPower(data.power)}</div>
+				)}
+				{themes.length > 0 && (
+					<select
+						value={data.themeId}
+						onChange={(e) =>
+							setElementExtractionTheme(data.elementId, Number(e.target.value))
+						}
+						onClick={(e) => e.stopPropagation()}
+						className="nodrag w-full bg-gray-800 border border-gray-700 rounded px-1 py-0.5 text-xs text-gray-100"
+					>
+						{themes.map((theme) => (
+							<option key={theme.ID} value={theme.ID}>
+								{formatTheme(theme)}
+							</option>
+						))}
+					</select>
+				)}
+				{data.fuelShare > 0 && (
+					<div>🔥 {(data.fuelShare * 100).toFixed(0)}% burned as fuel</div>
+				)}
+				<ByproductSupplyLabel supply={data.byproductSupply ?? 0} />
 			</div>
 		</div>
 	);
@@ -0,0 +1,25 @@
+function formatCount(count: number): string {
+	return Number.isInteger(count) ? String(count) : count.toFixed(2);
+}
+
+/** Facility count, with the built buildings' utilization once rounded */
+export function FacilityCount({
+	count,
+	builtCount,
+}: {
+	count: number;
+	builtCount?: number;
+}) {
+	if (builtCount === undefined || builtCount === count || builtCount <= 0) {
+		return <>{formatCount(count)}</>;
+	}
+
+	return (
+		<>
+			{formatCount(builtCount)}
+			<span className="ml-1 text-gray-500">
+				({((count / builtCount) * 100).toFixed(0)}%)
+			</span>
+		</>
+	);
+}
@@ -1,13 +1,22 @@
 import { useEffect, useRef, useState } from "react";
 import { GameIcon } from "@/components/ui/GameIcon";
+import { useCalculator } from "@/hooks/use-calculator";
+import { BELT_SPEEDS } from "@/lib/calculator/models";
 import { BuildingDetailsService } from "@/lib/data/building-details-service";
+import { DSPData } from "@/lib/data/dsp-data";
 
 interface FacilityEditPopoverProps {
 	recipeType: string;
 	currentFacilityItemId: number;
 	currentCount: number;
 	isRoot: boolean;
-	onConfirm: (facilityItemId: number, count?: number) => void;
+	// Input belt tier, offered for fractionators only
+	currentBeltItemId?: number;
+	onConfirm: (
+		facilityItemId: number,
+		count?: number,
+		beltItemId?: number,
+	) => void;
 	onClose: () => void;
 }
 
@@ -16,12 +25,23 @@ export function FacilityEditPopover({
 	currentFacilityItemId,
 	currentCount,
 	isRoot,
+	currentBeltItemId,
 	onConfirm,
 	onClose,
 }: FacilityEditPopoverProps) {
-	const facilities =
-		BuildingDetailsService.getFacilitiesForRecipeType(recipeType);
+	const { isBuildingUnlocked } = useCalculator();
+	// The facility in use stays on offer even if research hasn't unlocked it
+	const facilities = BuildingDetailsService.getFacilitiesForRecipeType(
+		recipeType,
+	).filter(
+		(facility) =>
+			facility.itemId === currentFacilityItemId ||
+			isBuildingUnlocked(facility.itemId),
+	);
 	const [selectedId, setSelectedId] = useState(currentFacilityItemId);
+	const [beltItemId, setBeltItemId] = useState(currentBeltItemId);
+	const showBelts =
+		recipeType === "Fractionate" && currentBeltItemId !== undefined;
 	const [count, setCount] = useState(
 		currentCount > 0
 			? Number.isInteger(currentCount)
@@ -55,10 +75,10 @@ export function FacilityEditPopover({
 		if (isRoot) {
 			const num = Number.parseFloat(count);
 			if (num > 0 && Number.isFinite(num)) {
-				onConfirm(selectedId, num);
+				onConfirm(selectedId, num, beltItemId);
 			}
 		} else {
-			onConfirm(selectedId);
+			onConfirm(selectedId, undefined, beltItemId);
 		}
 	}
 
@@ -93,6 +113,33 @@ export function FacilityEditPopover({
 				))}
 			</div>
 
+			{showBelts && (
+				<>
+					<div className="text-xs text-gray-400 mb-1">Input belt</div>
+					<div className="flex gap-1 mb-2">
+						{Object.entries(BELT_SPEEDS).map(([id, speed]) => {
+							const belt = DSPData.getItemById(Number(id));
+							if (!belt) return null;
+							return (
+								<button
+									key={id}
+									type="button"
+									onClick={() => setBeltItemId(Number(id))}
+									className={`p-1 rounded border ${
+										beltItemId === Number(id)
+											? "border-blue-500 bg-blue-900/30"
+											: "border-gray-700 hover:border-gray-500"
+									}`}
+									title={`${belt.Name} (${speed}/s)`}
+								>
+									<GameIcon name={belt.Name} size={28} />
+								</button>
+							);
+						})}
+					</div>
+				</>
+			)}
+
 			{isRoot && (
 				<>
 					<div className="text-xs text-gray-400 mb-1">Facility count</div>
@@ -29,6 +29,12 @@ interface FlowEdgeData {
 	rate: number;
 	itemId: number;
 	itemsPerCycle: number;
+	// Byproduct reused by another element instead of an input belt
+	isByproduct?: boolean;
+	// Recipe loop fed back from an ancestor's output
+	isLoop?: boolean;
+	// Proliferator delivered to the spray coaters of a recipe's inputs
+	isProliferator?: boolean;
 }
 
 export function FlowEdge({
@@ -57,13 +63,24 @@ export function FlowEdge({
 	const itemsPerCycle = typedData?.itemsPerCycle ?? 0;
 	const item = itemId ? DSPData.getItemById(itemId) : null;
 	const belt = rate > 0 ? getBeltRequirement(rate) : null;
+	const isByproduct = typedData?.isByproduct ?? false;
+	const isLoop = typedData?.isLoop ?? false;
+	const isProliferator = typedData?.isProliferator ?? false;
 
 	return (
 		<>
 			<BaseEdge
 				id={id}
 				path={edgePath}
-				style={{ stroke: "#6b7280", strokeWidth: 2 }}
+				style={
+					isByproduct
+						? { stroke: "#f59e0b", strokeWidth: 2, strokeDasharray: "6 4" }
+						: isLoop
+							? { stroke: "#a855f7", strokeWidth: 2, strokeDasharray: "6 4" }
+							: isProliferator
+								? { stroke: "#22c55e", strokeWidth: 2, strokeDasharray: "2 4" }
+								: { stroke: "#6b7280", strokeWidth: 2 }
+				}
 			/>
 			<EdgeLabelRenderer>
 				<div
@@ -0,0 +1,163 @@
+import { Handle, type Node, type NodeProps, Position } from "@xyflow/react";
+import { useState } from "react";
+import {
+	ByproductInputHandle,
+	ByproductSupplyLabel,
+} from "@/components/graph/ByproductHandles";
+import { RateEditPopover } from "@/components/graph/RateEditPopover";
+import { GameIcon } from "@/components/ui/GameIcon";
+import { useCalculator } from "@/hooks/use-calculator";
+import { GRAVITON_LENS_ITEM_ID } from "@/lib/calculator/gathering";
+import { DSPData } from "@/lib/data/dsp-data";
+import { cn, formatPower } from "@/lib/utils";
+
+interface GatheringNodeData extends Record<string, unknown> {
+	elementId: string;
+	itemId: number;
+	itemName: string;
+	requiredRate: number;
+	actualRate: number;
+	facilityItemId: number | null;
+	facilityCount: number;
+	lens: boolean;
+	continuity: number;
+	spherePower: number;
+	lensRate: number;
+	isRoot: boolean;
+	targetId: string | null;
+	byproductSupply: number;
+}
+
+type GatheringNode = Node<GatheringNodeData, "gathering">;
+
+const lensItem = DSPData.getItemById(GRAVITON_LENS_ITEM_ID);
+
+export function GatheringNode({ data, selected }: NodeProps<GatheringNode>) {
+	const { updateTargetRate, updateElementRayReceiver } = useCalculator();
+	const item = DSPData.getItemById(data.itemId);
+	const facility = data.facilityItemId
+		? DSPData.getItemById(data.facilityItemId)
+		: null;
+	const [showRate, setShowRate] = useState(false);
+
+	return (
+		<div
+			className={cn(
+				"rounded-lg border-2 bg-purple-900/30 p-3 shadow-lg w-[180px]",
+				selected ? "border-purple-500" : "border-purple-700",
+			)}
+		>
+			{/* Output handle — top center */}
+			<Handle
+				type="source"
+				position={Position.Top}
+				id="output"
+				className="w-3 h-3"
+			/>
+			<ByproductInputHandle supply={data.byproductSupply ?? 0} />
+
+			<div className="flex items-center gap-2">
+				{item && <GameIcon name={item.Name} size={32} />}
+				<div className="flex-1 min-w-0">
+					<div className="font-medium text-sm text-gray-100 truncate">
+						{data.itemName}
+					</div>
+					<div className="text-xs text-purple-400">Gathering</div>
+				</div>
+			</div>
+
+			<div className="mt-2 text-xs text-gray-400 space-y-1">
+				<div className="relative">
+					{data.isRoot && data.targetId ? (
+						<button
+							type="button"
+							className="hover:text-purple-400 hover:underline"
+							onClick={(e) => {
+								e.stopPropagation();
+								setShowRate(!showRate);
+							}}
+						>
+							{data.actualRate.toFixed(2)}/s
+						</button>
+					) : (
+						<span>{data.actualRate.toFixed(2)}/s</span>
+					)}
+					{showRate && data.targetId && (
+						<RateEditPopover
+							currentRate={data.requiredRate}
+							onConfirm={(newRate) => {
+								if (data.targetId) updateTargetRate(data.targetId, newRate);
+								setShowRate(false);
+							}}
+							onClose={() => setShowRate(false)}
+						/>
+					)}
+				</div>
+				{data.facilityCount > 0 && (
+					<div className="flex items-center gap-1">
+						{facility && <GameIcon name={facility.Name} size={18} />}
+						<span>
+							×
+							{Number.isInteger(data.facilityCount)
+								? data.facilityCount
+								: data.facilityCount.toFixed(2)}{" "}
+							receivers
+						</span>
+					</div>
+				)}
+				<label className="flex items-center gap-1">
+					<input
+						type="checkbox"
+						checked={data.lens}
+						onChange={(e) =>
+							updateElementRayReceiver(data.elementId, {
+								lens: e.target.checked,
+								continuity: data.continuity,
+							})
+						}
+						onClick={(e) => e.stopPropagation()}
+						className="nodrag"
+					/>
+					<span>Graviton lens</span>
+				</label>
+				<label className="flex items-center justify-between gap-1">
+					<span>Continuity %</span>
+					<input
+						type="number"
+						defaultValue={Math.round(data.continuity * 100)}
+						min={1}
+						max={100}
+						step={5}
+						onClick={(e) => e.stopPropagation()}
+						onBlur={(e) => {
+							const continuity = Number(e.target.value) / 100;
+							if (
+								continuity > 0 &&
+								continuity <= 1 &&
+								continuity !== data.continuity
+							) {
+								updateElementRayReceiver(data.elementId, {
+									lens: data.lens,
+									continuity,
+								});
+							}
+						}}
+						className="nodrag w-16 bg-gray-800 border border-gray-700 rounded px-1 py-0.5 text-xs text-gray-100"
+					/>
+				</label>
+				{data.spherePower > 0 && (
+					<div className="text-purple-300">
+						☀️ {formatPower(data.spherePower)} from the sphere
+					</div>
+				)}
+				{data.lensRate > 0 && (
+					<div className="flex items-center gap-1">
+						{lensItem && <GameIcon name={lensItem.Name} size={18} />}
+						<span>{(data.lensRate * 60).toFixed(2)}/min</span>
+					</div>
+				)}
+				<ByproductSupplyLabel supply={data.byproductSupply ?? 0} />
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,138 @@
+import { useEffect, useRef, useState } from "react";
+import { GameIcon } from "@/components/ui/GameIcon";
+import {
+	ADVANCED_MINER_ITEM_ID,
+	MAX_MINER_SPEED_SETTING,
+	MINER_VEIN_RATES,
+	type MiningConfig,
+} from "@/lib/calculator/models";
+import { DSPData } from "@/lib/data/dsp-data";
+
+interface MinerEditPopoverProps {
+	current: MiningConfig;
+	onConfirm: (mining: MiningConfig) => void;
+	onClose: () => void;
+}
+
+export function MinerEditPopover({
+	current,
+	onConfirm,
+	onClose,
+}: MinerEditPopoverProps) {
+	const [minerItemId, setMinerItemId] = useState(current.minerItemId);
+	const [veinsPerMiner, setVeinsPerMiner] = useState(
+		String(current.veinsPerMiner),
+	);
+	const [speedPercent, setSpeedPercent] = useState(
+		String(Math.round(current.speedSetting * 100)),
+	);
+	const containerRef = useRef<HTMLDivElement>(null);
+
+	useEffect(() => {
+		function handleClickOutside(e: MouseEvent) {
+			if (
+				containerRef.current &&
+				!containerRef.current.contains(e.target as Node)
+			) {
+				onClose();
+			}
+		}
+		function handleKeyDown(e: KeyboardEvent) {
+			if (e.key === "Escape") onClose();
+		}
+		document.addEventListener("mousedown", handleClickOutside);
+		document.addEventListener("keydown", handleKeyDown);
+		return () => {
+			document.removeEventListener("mousedown", handleClickOutside);
+			document.removeEventListener("keydown", handleKeyDown);
+		};
+	}, [onClose]);
+
+	function handleSubmit() {
+		const veins = Number.parseFloat(veinsPerMiner);
+		const speed = Number.parseFloat(speedPercent) / 100;
+		if (!(veins > 0) || !Number.isFinite(veins)) return;
+		onConfirm({
+			minerItemId,
+			veinsPerMiner: veins,
+			speedSetting:
+				minerItemId === ADVANCED_MINER_ITEM_ID && Number.isFinite(speed)
+					? Math.min(MAX_MINER_SPEED_SETTING, Math.max(1, speed))
+					: 1,
+		});
+	}
+
+	return (
+		// biome-ignore lint/a11y/noStaticElementInteractions: Required for React Flow event handling
+		<div
+			ref={containerRef}
+			role="presentation"
+			className="nopan nodrag nowheel absolute z-50 bg-gray-900 border border-gray-600 rounded-lg p-2 shadow-xl"
+			style={{ top: "100%", left: 0, minWidth: 180 }}
+			onClick={(e) => e.stopPropagation()}
+			onMouseDown={(e) => e.stopPropagation()}
+		>
+			<div className="text-xs text-gray-400 mb-1">Miner</div>
+			<div className="flex gap-1 mb-2">
+				{Object.keys(MINER_VEIN_RATES).map((id) => {
+					const miner = DSPData.getItemById(Number(id));
+					if (!miner) return null;
+					return (
+						<button
+							key={id}
+							type="button"
+							onClick={() => setMinerItemId(Number(id))}
+							className={`p-1 rounded border ${
+								minerItemId === Number(id)
+									? "border-blue-500 bg-blue-900/30"
+									: "border-gray-700 hover:border-gray-500"
+							}`}
+							title={miner.Name}
+						>
+							<GameIcon name={miner.Name} size={28} />
+						</button>
+					);
+				})}
+			</div>
+
+			<div className="text-xs text-gray-400 mb-1">Veins per miner</div>
+			<input
+				type="number"
+				value={veinsPerMiner}
+				onChange={(e) => setVeinsPerMiner(e.target.value)}
+				onKeyDown={(e) => {
+					if (e.key === "Enter") handleSubmit();
+				}}
+				min={1}
+				step={1}
+				className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100 mb-2"
+			/>
+
+			{minerItemId === ADVANCED_MINER_ITEM_ID && (
+				<>
+					<div className="text-xs text-gray-400 mb-1">Speed setting (%)</div>
+					<input
+						type="number"
+						value={speedPercent}
+						onChange={(e) => setSpeedPercent(e.target.value)}
+						onKeyDown={(e) => {
+							if (e.key === "Enter") handleSubmit();
+						}}
+						min={100}
+						max={MAX_MINER_SPEED_SETTING * 100}
+						step={10}
+						className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100 mb-2"
+					/>
+				</>
+			)}
+
+			<button
+				type="button"
+				onClick={handleSubmit}
+				className="w-full px-2 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-500"
+			>
+				Set
+			</button>
+		</div>
+	);
+}
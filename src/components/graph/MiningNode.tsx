@@ -1,5 +1,10 @@
 import { Handle, type Node, type NodeProps, Position } from "@xyflow/react";
 import { useState } from "react";
+import {
+	ByproductInputHandle,
+	ByproductSupplyLabel,
+} from "@/components/graph/ByproductHandles";
+import { MinerEditPopover } from "@/components/graph/MinerEditPopover";
 import { RateEditPopover } from "@/components/graph/RateEditPopover";
 import { GameIcon } from "@/components/ui/GameIcon";
 import { useCalculator } from "@/hooks/use-calculator";
@@ -12,19 +17,30 @@ interface MiningNodeData extends Record<string, unknown> {
 	itemName: string;
 	requiredRate: number;
 	actualRate: number;
+	facilityItemId: number | null;
 	facilityCount: number;
+	veinsPerMiner: number;
+	minerSpeedSetting: number;
 	cycleDuration: number;
 	perCycleAmount: number;
 	isRoot: boolean;
 	targetId: string | null;
+	byproductSupply: number;
 }
 
 type MiningNode = Node<MiningNodeData, "mining">;
 
+function formatCount(count: number): string {
+	return Number.isInteger(count) ? String(count) : count.toFixed(2);
+}
+
 export function MiningNode({ data, selected }: NodeProps<MiningNode>) {
-	const { updateTargetRate } = useCalculator();
+	const { updateTargetRate, updateElementMiner } = useCalculator();
 	const item = DSPData.getItemById(data.itemId);
-	const [showRate, setShowRate] = useState(false);
+	const miner = data.facilityItemId
+		? DSPData.getItemById(data.facilityItemId)
+		: null;
+	const [popover, setPopover] = useState<null | "rate" | "miner">(null);
 
 	return (
 		<div
@@ -41,6 +57,7 @@ export function MiningNode({ data, selected }: NodeProps<MiningNode>) {
 				id="output"
 				className="w-3 h-3"
 			/>
+			<ByproductInputHandle supply={data.byproductSupply ?? 0} />
 
 			<div className="flex items-center gap-2">
 				{item && <GameIcon name={item.Name} size={32} />}
@@ -60,7 +77,7 @@ export function MiningNode({ data, selected }: NodeProps<MiningNode>) {
 							className="hover:text-blue-400 hover:underline"
 							onClick={(e) => {
 								e.stopPropagation();
-								setShowRate(!showRate);
+								setPopover(popover === "rate" ? null : "rate");
 							}}
 						>
 							⏱️ {data.cycleDuration}s ({data.actualRate.toFixed(2)}/s)
@@ -70,26 +87,55 @@ export function MiningNode({ data, selected }: NodeProps<MiningNode>) {
 							⏱️ {data.cycleDuration}s ({data.actualRate.toFixed(2)}/s)
 						</span>
 					)}
-					{showRate && data.targetId && (
+					{popover === "rate" && data.targetId && (
 						<RateEditPopover
 							currentRate={data.requiredRate}
 							onConfirm={(newRate) => {
 								if (data.targetId) updateTargetRate(data.targetId, newRate);
-								setShowRate(false);
+								setPopover(null);
 							}}
-							onClose={() => setShowRate(false)}
+							onClose={() => setPopover(null)}
 						/>
 					)}
 				</div>
-				{data.facilityCount > 0 && (
-					<div>
-						×
-						{Number.isInteger(data.facilityCount)
-							? data.facilityCount
-							: data.facilityCount.toFixed(2)}{" "}
-						veins
+				{/* Plans from before miners were modelled only know the vein count */}
+				{data.facilityCount > 0 && miner && data.veinsPerMiner > 0 ? (
+					<div className="relative">
+						<button
+							type="button"
+							className="flex items-center gap-1 hover:bg-gray-700/50 rounded px-1 -mx-1"
+							onClick={(e) => {
+								e.stopPropagation();
+								setPopover(popover === "miner" ? null : "miner");
+							}}
+						>
+							<GameIcon name={miner.Name} size={18} />
+							<span>
+								{formatCount(data.facilityCount)} miners covering{" "}
+								{formatCount(data.facilityCount * data.veinsPerMiner)} veins
+							</span>
+						</button>
+						{popover === "miner" && data.facilityItemId && (
+							<MinerEditPopover
+								current={{
+									minerItemId: data.facilityItemId,
+									veinsPerMiner: data.veinsPerMiner,
+									speedSetting: data.minerSpeedSetting,
+								}}
+								onConfirm={(mining) => {
+									updateElementMiner(data.elementId, mining);
+									setPopover(null);
+								}}
+								onClose={() => setPopover(null)}
+							/>
+						)}
 					</div>
+				) : (
+					data.facilityCount > 0 && (
+						<div>×{formatCount(data.facilityCount)} veins</div>
+					)
 				)}
+				<ByproductSupplyLabel supply={data.byproductSupply ?? 0} />
 			</div>
 		</div>
 	);
@@ -14,6 +14,8 @@ interface ProliferatorEditPopoverProps {
 	recipeTime?: number;
 	facilitySpeed?: number;
 	inputCount?: number;
+	// False for recipes proliferators can't add extra products to
+	canUseProductMode?: boolean;
 	onConfirm: (mode: ProliferatorMode, level: number, itemId: number) => void;
 	onClose: () => void;
 }
@@ -49,6 +51,7 @@ export function ProliferatorEditPopover({
 	recipeTime,
 	facilitySpeed,
 	inputCount,
+	canUseProductMode = true,
 	onConfirm,
 	onClose,
 }: ProliferatorEditPopoverProps) {
@@ -148,21 +151,29 @@ export function ProliferatorEditPopover({
 			{/* Mode Selection */}
 			<div className="text-xs text-gray-400 mb-2">Proliferator Mode</div>
 			<div className="flex gap-1 mb-3">
-				{MODES.map((m) => (
-					<button
-						key={m.id}
-						type="button"
-						onClick={() => handleModeChange(m.id)}
-						className={`flex-1 px-2 py-1 text-xs rounded border ${
-							mode === m.id
-								? "border-blue-500 bg-blue-900/30 text-blue-300"
-								: "border-gray-700 hover:border-gray-500 text-gray-400"
-						}`}
-						title={m.description}
-					>
-						{m.label}
-					</button>
-				))}
+				{MODES.map((m) => {
+					const disabled = m.id === "product" && !canUseProductMode;
+					return (
+						<button
+							key={m.id}
+							type="button"
+							onClick={() => handleModeChange(m.id)}
+							disabled={disabled}
+							className={`flex-1 px-2 py-1 text-xs rounded border disabled:opacity-40 disabled:cursor-not-allowed ${
+								mode === m.id
+									? "border-blue-500 bg-blue-900/30 text-blue-300"
+									: "border-gray-700 hover:border-gray-500 text-gray-400"
+							}`}
+							title={
+								disabled
+									? "This recipe can't make extra products"
+									: m.description
+							}
+						>
+							{m.label}
+						</button>
+					);
+				})}
 			</div>
 
 			{/* Level Selection - only show if mode is not "none" */}
@@ -0,0 +1,49 @@
+import { Handle, Position } from "@xyflow/react";
+import { GameIcon } from "@/components/ui/GameIcon";
+import { SPRAY_COATER_ITEM_ID } from "@/lib/calculator/spraying";
+import { DSPData } from "@/lib/data/dsp-data";
+
+const PROLIFERATOR_HANDLE_COLOR = "#22c55e";
+
+const sprayCoaterItem = DSPData.getItemById(SPRAY_COATER_ITEM_ID);
+
+/** Target handle on the left edge for the proliferator the spray coaters use */
+export function ProliferatorInputHandle({
+	itemId,
+	rate,
+}: {
+	itemId?: number;
+	rate: number;
+}) {
+	if (!itemId || rate <= 0) return null;
+
+	return (
+		<Handle
+			type="target"
+			position={Position.Left}
+			id="proliferator-in"
+			style={{ top: "75%", background: PROLIFERATOR_HANDLE_COLOR }}
+			className="w-3 h-3"
+			title={`${DSPData.getItemById(itemId)?.Name ?? ""}: ${rate.toFixed(3)}/s`}
+		/>
+	);
+}
+
+export function SprayCoaterLabel({
+	count,
+	rate,
+}: {
+	count: number;
+	rate: number;
+}) {
+	if (count <= 0) return null;
+
+	return (
+		<div className="flex items-center gap-1 text-xs text-green-400">
+			{sprayCoaterItem && <GameIcon name={sprayCoaterItem.Name} size={18} />}
+			<span>
+				×{count} spray coaters · {rate.toFixed(3)}/s
+			</span>
+		</div>
+	);
+}
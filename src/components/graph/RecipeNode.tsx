@@ -1,12 +1,23 @@
 import { Handle, type Node, type NodeProps, Position } from "@xyflow/react";
 import { useState } from "react";
+import {
+	ByproductInputHandle,
+	ByproductOutputHandles,
+	ByproductSupplyLabel,
+} from "@/components/graph/ByproductHandles";
+import { FacilityCount } from "@/components/graph/FacilityCount";
 import { FacilityEditPopover } from "@/components/graph/FacilityEditPopover";
 import { ProliferatorEditPopover } from "@/components/graph/ProliferatorEditPopover";
+import {
+	ProliferatorInputHandle,
+	SprayCoaterLabel,
+} from "@/components/graph/ProliferatorHandles";
 import { RateEditPopover } from "@/components/graph/RateEditPopover";
 import { GameIcon } from "@/components/ui/GameIcon";
 import { useCalculator } from "@/hooks/use-calculator";
+import type { RoundingMode } from "@/lib/calculator/models";
 import { DSPData } from "@/lib/data/dsp-data";
-import { cn } from "@/lib/utils";
+import { cn, formatPower } from "@/lib/utils";
 
 interface InputHandle {
 	elementId: string;
@@ -23,9 +34,15 @@ interface RecipeNodeData extends Record<string, unknown> {
 	actualRate: number;
 	facilityItemId: number | null;
 	facilityCount: number;
+	builtCount?: number;
+	// Element's own rounding override, null when it follows the plan
+	rounding: RoundingMode | null;
+	surplusRate: number;
 	hasSource: boolean;
 	sourceType: string;
 	inputHandles: InputHandle[];
+	byproductHandles: Array<{ itemId: number; itemName: string; rate: number }>;
+	byproductSupply: number;
 	cycleDuration: number;
 	perCycleAmount: number;
 	canCraft: boolean;
@@ -34,15 +51,28 @@ interface RecipeNodeData extends Record<string, unknown> {
 	recipeType: string | null;
 	proliferatorMode: import("@/lib/calculator/models").ProliferatorMode;
 	proliferatorLevel: number;
+	canUseProductMode: boolean;
 	proliferatorConsumption?: {
 		itemId: number;
 		itemsPerCraft: number;
 		itemsPerSecond: number;
 	};
+	sprayCoaterCount: number;
+	beltItemId: number;
+	passThroughRate: number;
+	power: number;
 }
 
 type RecipeNode = Node<RecipeNodeData, "recipe">;
 
+// Per-node rounding override, cycled by clicking; null follows the plan
+const ROUNDING_CYCLE: Array<RoundingMode | null> = [null, "element", "exact"];
+const ROUNDING_LABELS: Record<string, string> = {
+	plan: "plan",
+	element: "⌈n⌉",
+	exact: "exact",
+};
+
 export function RecipeNode({ data, selected }: NodeProps<RecipeNode>) {
 	const {
 		selectElement,
@@ -50,6 +80,7 @@ export function RecipeNode({ data, selected }: NodeProps<RecipeNode>) {
 		updateRootFacility,
 		updateElementFacilityType,
 		updateElementProliferator,
+		setElementRounding,
 	} = useCalculator();
 	const item = DSPData.getItemById(data.itemId);
 	const facility = data.facilityItemId
@@ -88,6 +119,12 @@ export function RecipeNode({ data, selected }: NodeProps<RecipeNode>) {
 				id="output"
 				className="w-3 h-3"
 			/>
+			<ByproductOutputHandles outputs={data.byproductHandles ?? []} />
+			<ByproductInputHandle supply={data.byproductSupply ?? 0} />
+			<ProliferatorInputHandle
+				itemId={data.proliferatorConsumption?.itemId}
+				rate={data.proliferatorConsumption?.itemsPerSecond ?? 0}
+			/>
 
 			{/* Node body */}
 			<div className="p-3">
@@ -133,26 +170,45 @@ export function RecipeNode({ data, selected }: NodeProps<RecipeNode>) {
 				{(facility && data.facilityCount > 0) || !data.hasSource ? (
 					<div className="mt-2 relative">
 						{data.hasSource && data.recipeType ? (
-							<button
-								type="button"
-								className="flex items-center gap-1 hover:bg-gray-700/50 rounded px-1 -mx-1"
-								onClick={(e) => {
-									e.stopPropagation();
-									setPopover(popover === "facility" ? null : "facility");
-								}}
-							>
-								{facility && data.facilityCount > 0 ? (
-									<GameIcon name={facility.Name} size={18} />
-								) : null}
-								{data.facilityCount > 0 && (
-									<span className="text-xs text-gray-400">
-										×
-										{Number.isInteger(data.facilityCount)
-											? data.facilityCount
-											: data.facilityCount.toFixed(2)}
-									</span>
-								)}
-							</button>
+							<div className="flex items-center gap-2">
+								<button
+									type="button"
+									className="flex items-center gap-1 hover:bg-gray-700/50 rounded px-1 -mx-1"
+									onClick={(e) => {
+										e.stopPropagation();
+										setPopover(popover === "facility" ? null : "facility");
+									}}
+								>
+									{facility && data.facilityCount > 0 ? (
+										<GameIcon name={facility.Name} size={18} />
+									) : null}
+									{data.facilityCount > 0 && (
+										<span className="text-xs text-gray-400">
+											×
+											<FacilityCount
+												count={data.facilityCount}
+												builtCount={data.builtCount}
+											/>
+										</span>
+									)}
+								</button>
+								<button
+									type="button"
+									className="ml-auto text-xs text-gray-500 hover:text-gray-300"
+									title="Rounding for this node"
+									onClick={(e) => {
+										e.stopPropagation();
+										const next =
+											ROUNDING_CYCLE[
+												(ROUNDING_CYCLE.indexOf(data.rounding ?? null) + 1) %
+													ROUNDING_CYCLE.length
+											];
+										setElementRounding(data.elementId, next);
+									}}
+								>
+									{ROUNDING_LABELS[data.rounding ?? "plan"]}
+								</button>
+							</div>
 						) : (
 							<div className="flex items-center gap-1">
 								{facility && data.facilityCount > 0 ? (
@@ -163,9 +219,10 @@ export function RecipeNode({ data, selected }: NodeProps<RecipeNode>) {
 								{data.facilityCount > 0 && (
 									<span className="text-xs text-gray-400">
 										×
-										{Number.isInteger(data.facilityCount)
-											? data.facilityCount
-											: data.facilityCount.toFixed(2)}
+										<FacilityCount
+											count={data.facilityCount}
+											builtCount={data.builtCount}
+										/>
 									</span>
 								)}
 							</div>
@@ -176,11 +233,21 @@ export function RecipeNode({ data, selected }: NodeProps<RecipeNode>) {
 								currentFacilityItemId={data.facilityItemId ?? 0}
 								currentCount={data.facilityCount}
 								isRoot={data.isRoot && !!data.targetId}
-								onConfirm={(facilityItemId, count) => {
+								currentBeltItemId={data.beltItemId}
+								onConfirm={(facilityItemId, count, beltItemId) => {
 									if (data.isRoot && data.targetId) {
-										updateRootFacility(data.targetId, facilityItemId, count);
+										updateRootFacility(
+											data.targetId,
+											facilityItemId,
+											count,
+											beltItemId,
+										);
 									} else {
-										updateElementFacilityType(data.elementId, facilityItemId);
+										updateElementFacilityType(
+											data.elementId,
+											facilityItemId,
+											beltItemId,
+										);
 									}
 									setPopover(null);
 								}}
@@ -224,6 +291,7 @@ export function RecipeNode({ data, selected }: NodeProps<RecipeNode>) {
 								currentMode={data.proliferatorMode}
 								currentLevel={data.proliferatorLevel}
 								currentItemId={data.proliferatorConsumption?.itemId}
+								canUseProductMode={data.canUseProductMode}
 								onConfirm={(mode, level, itemId) => {
 									updateElementProliferator(
 										data.elementId,
@@ -236,6 +304,34 @@ export function RecipeNode({ data, selected }: NodeProps<RecipeNode>) {
 								onClose={() => setPopover(null)}
 							/>
 						)}
+						<SprayCoaterLabel
+							count={data.sprayCoaterCount ?? 0}
+							rate={data.proliferatorConsumption?.itemsPerSecond ?? 0}
+						/>
+					</div>
+				)}
+
+				{(data.power ?? 0) > 0 && (
+					<div className="mt-2 text-xs text-yellow-400">
+						⚡ {formatPower(data.power)}
+					</div>
+				)}
+
+				{(data.surplusRate ?? 0) > 0 && (
+					<div className="mt-2 text-xs text-sky-400">
+						+{data.surplusRate.toFixed(2)}/s overproduction
+					</div>
+				)}
+
+				{(data.passThroughRate ?? 0) > 0 && (
+					<div className="mt-2 text-xs text-gray-400">
+						↪ {data.passThroughRate.toFixed(2)}/s passes through
+					</div>
+				)}
+
+				{(data.byproductSupply ?? 0) > 0 && (
+					<div className="mt-2">
+						<ByproductSupplyLabel supply={data.byproductSupply} />
 					</div>
 				)}
 
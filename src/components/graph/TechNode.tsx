@@ -0,0 +1,82 @@
+import { Handle, type Node, type NodeProps, Position } from "@xyflow/react";
+import { GameIcon } from "@/components/ui/GameIcon";
+import { useCalculator } from "@/hooks/use-calculator";
+import { DSPData } from "@/lib/data/dsp-data";
+import type { TechNodeData } from "@/lib/graph/tech-tree-builder";
+import { cn } from "@/lib/utils";
+
+type TechNode = Node<TechNodeData, "tech">;
+
+export function TechNode({ data, selected }: NodeProps<TechNode>) {
+	const { addRecipeTarget, setTechCompleted } = useCalculator();
+	const icon = data.recipes[0]
+		? DSPData.getItemById(data.recipes[0].itemId)
+		: undefined;
+
+	return (
+		<div
+			className={cn(
+				"rounded-lg border-2 p-2 shadow-lg w-[220px]",
+				data.researched
+					? "bg-emerald-900/30 border-emerald-600"
+					: "bg-gray-800 border-gray-600",
+				selected && "border-blue-500",
+			)}
+		>
+			<Handle type="target" position={Position.Left} className="w-2 h-2" />
+			<Handle type="source" position={Position.Right} className="w-2 h-2" />
+
+			<div className="flex items-center gap-2">
+				{icon && <GameIcon name={icon.Name} size={28} />}
+				<div className="flex-1 min-w-0 font-medium text-sm text-gray-100 truncate">
+					{data.name}
+				</div>
+				<input
+					type="checkbox"
+					checked={data.researched}
+					onChange={(e) => setTechCompleted(data.techId, e.target.checked)}
+					onClick={(e) => e.stopPropagation()}
+					title="Researched"
+					className="nodrag"
+				/>
+			</div>
+
+			{data.hashes > 0 && (
+				<div className="mt-1 flex flex-wrap items-center gap-x-2 text-xs text-gray-400">
+					<span>{Math.round(data.hashes).toLocaleString()} H</span>
+					{data.items.map(({ itemId, count }) => {
+						const item = DSPData.getItemById(itemId);
+						return (
+							<span key={itemId} className="flex items-center gap-0.5">
+								{item && <GameIcon name={item.Name} size={14} />}
+								{Math.ceil(count).toLocaleString()}
+							</span>
+						);
+					})}
+				</div>
+			)}
+
+			{data.recipes.length > 0 && (
+				<div className="mt-1 flex flex-wrap gap-1">
+					{data.recipes.map((recipe) => {
+						const item = DSPData.getItemById(recipe.itemId);
+						return (
+							<button
+								key={recipe.recipeId}
+								type="button"
+								title={`Add ${recipe.name} as a target`}
+								onClick={(e) => {
+									e.stopPropagation();
+									addRecipeTarget(recipe.recipeId);
+								}}
+								className="nodrag rounded border border-gray-700 bg-gray-900 p-0.5 hover:border-blue-500"
+							>
+								{item && <GameIcon name={item.Name} size={20} />}
+							</button>
+						);
+					})}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,56 @@
+import {
+	Background,
+	Controls,
+	MiniMap,
+	ReactFlow,
+	useEdgesState,
+	useNodesState,
+} from "@xyflow/react";
+import { useEffect, useMemo } from "react";
+import "@xyflow/react/dist/style.css";
+
+import { useCalculator } from "@/hooks/use-calculator";
+import { buildTechTreeGraph } from "@/lib/graph/tech-tree-builder";
+import { TechNode } from "./TechNode";
+
+const nodeTypes = {
+	tech: TechNode,
+};
+
+export function TechTreeGraph() {
+	const { research } = useCalculator();
+	const completedTechIds = research?.completedTechIds;
+
+	const graph = useMemo(
+		() => buildTechTreeGraph(completedTechIds),
+		[completedTechIds],
+	);
+
+	const [nodes, setNodes, onNodesChange] = useNodesState(graph.nodes);
+	const [edges, setEdges, onEdgesChange] = useEdgesState(graph.edges);
+
+	useEffect(() => {
+		setNodes(graph.nodes);
+		setEdges(graph.edges);
+	}, [graph, setNodes, setEdges]);
+
+	return (
+		<div className="h-full w-full">
+			<ReactFlow
+				nodes={nodes}
+				edges={edges}
+				onNodesChange={onNodesChange}
+				onEdgesChange={onEdgesChange}
+				nodeTypes={nodeTypes}
+				nodesConnectable={false}
+				fitView
+				minZoom={0.05}
+				attributionPosition="bottom-right"
+			>
+				<Background />
+				<Controls />
+				<MiniMap />
+			</ReactFlow>
+		</div>
+	);
+}
@@ -24,11 +24,16 @@ const edgeTypes = {
 };
 
 export function TotalsGraph() {
-	const { targets, elements, updateTotalsNodePosition, totalsNodePositions } =
-		useCalculator();
+	const {
+		targets,
+		elements,
+		rounding,
+		updateTotalsNodePosition,
+		totalsNodePositions,
+	} = useCalculator();
 
 	const { nodes: initialNodes, edges: initialEdges } = useMemo(() => {
-		const graph = buildTotalsGraphFromState(targets, elements);
+		const graph = buildTotalsGraphFromState(targets, elements, rounding.mode);
 
 		// Apply saved positions
 		for (const node of graph.nodes) {
@@ -42,13 +47,13 @@ export function TotalsGraph() {
 		}
 
 		return graph;
-	}, [targets, elements, totalsNodePositions]);
+	}, [targets, elements, rounding.mode, totalsNodePositions]);
 
 	const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
 	const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
 
 	useEffect(() => {
-		const graph = buildTotalsGraphFromState(targets, elements);
+		const graph = buildTotalsGraphFromState(targets, elements, rounding.mode);
 
 		// Apply saved positions
 		for (const node of graph.nodes) {
@@ -63,7 +68,14 @@ export function TotalsGraph() {
 
 		setNodes(graph.nodes);
 		setEdges(graph.edges);
-	}, [targets, elements, totalsNodePositions, setNodes, setEdges]);
+	}, [
+		targets,
+		elements,
+		rounding.mode,
+		totalsNodePositions,
+		setNodes,
+		setEdges,
+	]);
 
 	const onNodeDragStop = useCallback(
 		(_: unknown, node: { id: string; position: { x: number; y: number } }) => {
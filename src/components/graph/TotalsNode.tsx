@@ -1,12 +1,22 @@
 import { Handle, type Node, type NodeProps, Position } from "@xyflow/react";
 import { useState } from "react";
+import {
+	ByproductInputHandle,
+	ByproductOutputHandles,
+	ByproductSupplyLabel,
+} from "@/components/graph/ByproductHandles";
+import { FacilityCount } from "@/components/graph/FacilityCount";
 import { FacilityEditPopover } from "@/components/graph/FacilityEditPopover";
+import {
+	ProliferatorInputHandle,
+	SprayCoaterLabel,
+} from "@/components/graph/ProliferatorHandles";
 import { RateEditPopover } from "@/components/graph/RateEditPopover";
 import { GameIcon } from "@/components/ui/GameIcon";
 import { useCalculator } from "@/hooks/use-calculator";
 import { DSPData } from "@/lib/data/dsp-data";
 import { calculatorStore } from "@/lib/stores/calculator-store";
-import { cn } from "@/lib/utils";
+import { cn, formatPower } from "@/lib/utils";
 
 interface InputHandle {
 	itemId: number;
@@ -16,6 +26,7 @@ interface InputHandle {
 interface FacilityEntry {
 	itemId: number;
 	count: number;
+	builtCount?: number;
 	name: string;
 }
 
@@ -35,6 +46,10 @@ interface TotalsNodeData extends Record<string, unknown> {
 		itemId: number;
 		totalItemsPerSecond: number;
 	}>;
+	byproductHandles?: InputHandle[];
+	sprayCoaterCount?: number;
+	byproductSupply?: number;
+	power?: number;
 }
 
 type TotalsNode = Node<TotalsNodeData, "totals">;
@@ -88,6 +103,15 @@ export function TotalsNode({ data, selected }: NodeProps<TotalsNode>) {
 				id="output"
 				className="w-3 h-3"
 			/>
+			<ByproductOutputHandles outputs={data.byproductHandles ?? []} />
+			<ByproductInputHandle supply={data.byproductSupply ?? 0} />
+			<ProliferatorInputHandle
+				itemId={data.proliferatorSummary?.[0]?.itemId}
+				rate={(data.proliferatorSummary ?? []).reduce(
+					(sum, prolif) => sum + prolif.totalItemsPerSecond,
+					0,
+				)}
+			/>
 
 			{/* Node body */}
 			<div className="p-3">
@@ -144,9 +168,10 @@ export function TotalsNode({ data, selected }: NodeProps<TotalsNode>) {
 											{facItem && <GameIcon name={facItem.Name} size={18} />}
 											<span className="text-xs text-gray-400">
 												x
-												{Number.isInteger(fac.count)
-													? fac.count
-													: fac.count.toFixed(2)}
+												<FacilityCount
+													count={fac.count}
+													builtCount={fac.builtCount}
+												/>
 											</span>
 										</div>
 									);
@@ -161,9 +186,10 @@ export function TotalsNode({ data, selected }: NodeProps<TotalsNode>) {
 											{facItem && <GameIcon name={facItem.Name} size={18} />}
 											<span className="text-xs text-gray-400">
 												x
-												{Number.isInteger(fac.count)
-													? fac.count
-													: fac.count.toFixed(2)}
+												<FacilityCount
+													count={fac.count}
+													builtCount={fac.builtCount}
+												/>
 											</span>
 										</div>
 									);
@@ -186,6 +212,12 @@ export function TotalsNode({ data, selected }: NodeProps<TotalsNode>) {
 					</div>
 				)}
 
+				{(data.power ?? 0) > 0 && (
+					<div className="mt-1 text-xs text-yellow-400">
+						⚡ {formatPower(data.power ?? 0)}
+					</div>
+				)}
+
 				{/* Merged count badge */}
 				{data.elementCount > 1 && (
 					<div className="mt-1 text-xs text-amber-500/70">
@@ -193,6 +225,12 @@ export function TotalsNode({ data, selected }: NodeProps<TotalsNode>) {
 					</div>
 				)}
 
+				{(data.byproductSupply ?? 0) > 0 && (
+					<div className="mt-1">
+						<ByproductSupplyLabel supply={data.byproductSupply ?? 0} />
+					</div>
+				)}
+
 				{/* Proliferator consumption */}
 				{data.proliferatorSummary && data.proliferatorSummary.length > 0 && (
 					<div className="mt-2 border-t border-gray-700 pt-2">
@@ -208,6 +246,13 @@ export function TotalsNode({ data, selected }: NodeProps<TotalsNode>) {
 								</div>
 							);
 						})}
+						<SprayCoaterLabel
+							count={data.sprayCoaterCount ?? 0}
+							rate={data.proliferatorSummary.reduce(
+								(sum, prolif) => sum + prolif.totalItemsPerSecond,
+								0,
+							)}
+						/>
 					</div>
 				)}
 			</div>
@@ -0,0 +1,112 @@
+import { GameIcon } from "@/components/ui/GameIcon";
+import {
+	useCalculator,
+	useGatheringSummary,
+	useResourceNeeds,
+} from "@/hooks/use-calculator";
+import { GRAVITON_LENS_ITEM_ID } from "@/lib/calculator/gathering";
+import { DEFAULT_RAY_RECEIVER_CONFIG } from "@/lib/calculator/models";
+import { DSPData } from "@/lib/data/dsp-data";
+import { cn, formatPower } from "@/lib/utils";
+
+const lensItem = DSPData.getItemById(GRAVITON_LENS_ITEM_ID);
+
+export function GatheringPanel() {
+	const { globalDefaults, setDefaultRayReceiver, setDysonSpherePower } =
+		useCalculator();
+	const { gathered } = useResourceNeeds();
+	const { spherePower, lensRate } = useGatheringSummary();
+	const rayReceiver = globalDefaults.rayReceiver ?? DEFAULT_RAY_RECEIVER_CONFIG;
+	const available = globalDefaults.dysonSpherePower;
+
+	return (
+		<div className="mt-2 space-y-1">
+			<div className="text-xs text-gray-400">Ray receivers</div>
+			<div className="flex items-center gap-2 text-xs text-gray-400">
+				<label className="flex items-center gap-1">
+					<input
+						type="checkbox"
+						checked={rayReceiver.lens}
+						onChange={(e) =>
+							setDefaultRayReceiver({ ...rayReceiver, lens: e.target.checked })
+						}
+					/>
+					<span>Lens</span>
+				</label>
+				<label className="flex flex-1 items-center justify-end gap-1">
+					<span>Continuity %</span>
+					<input
+						type="number"
+						value={Math.round(rayReceiver.continuity * 100)}
+						onChange={(e) => {
+							const percent = Number(e.target.value);
+							if (percent > 0 && percent <= 100) {
+								setDefaultRayReceiver({
+									...rayReceiver,
+									continuity: percent / 100,
+								});
+							}
+						}}
+						min={1}
+						max={100}
+						step={5}
+						className="w-16 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100"
+					/>
+				</label>
+			</div>
+			<label className="flex items-center justify-between text-xs text-gray-400">
+				<span>Dyson sphere (GW)</span>
+				<input
+					type="number"
+					value={available !== undefined ? available / 1e9 : ""}
+					placeholder="∞"
+					onChange={(e) => {
+						const gigawatts = Number(e.target.value);
+						setDysonSpherePower(
+							e.target.value && gigawatts >= 0 ? gigawatts * 1e9 : null,
+						);
+					}}
+					min={0}
+					step={1}
+					className="w-20 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100"
+				/>
+			</label>
+
+			{Array.from(gathered.entries()).map(([itemId, rate]) => {
+				const item = DSPData.getItemById(itemId);
+				return (
+					<div
+						key={itemId}
+						className="flex justify-between text-sm text-gray-300"
+					>
+						<span>{item?.Name}</span>
+						<span>{rate.toFixed(2)}/s</span>
+					</div>
+				);
+			})}
+			{spherePower > 0 && (
+				<div
+					className={cn(
+						"flex justify-between text-xs",
+						available !== undefined && spherePower > available
+							? "text-red-400"
+							: "text-gray-400",
+					)}
+				>
+					<span>☀️ Sphere power</span>
+					<span>
+						{formatPower(spherePower)}
+						{available !== undefined && ` / ${formatPower(available)}`}
+					</span>
+				</div>
+			)}
+			{lensRate > 0 && lensItem && (
+				<div className="flex items-center gap-1 text-sm text-gray-300">
+					<GameIcon name={lensItem.Name} size={18} />
+					<span className="flex-1">{lensItem.Name}</span>
+					<span>{lensRate.toFixed(3)}/s</span>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,282 @@
+import { useState } from "react";
+import { GameIcon } from "@/components/ui/GameIcon";
+import { useCalculator, useLogistics } from "@/hooks/use-calculator";
+import { LIGHT_YEAR } from "@/lib/calculator/logistics";
+import {
+	DEFAULT_LOGISTICS_CONFIG,
+	type LogisticsStationKind,
+} from "@/lib/calculator/models";
+import { DSPData } from "@/lib/data/dsp-data";
+
+// Astronomical units in a light year
+const AU = LIGHT_YEAR / 60;
+
+// Planetary distances are entered in metres, interstellar ones in light years
+const DISTANCE_UNITS: Record<
+	LogisticsStationKind,
+	{ label: string; metres: number }
+> = {
+	planetary: { label: "m", metres: 1 },
+	interstellar: { label: "ly", metres: LIGHT_YEAR },
+};
+
+const SORTED_ITEMS = [...DSPData.items].sort((a, b) =>
+	a.Name.localeCompare(b.Name),
+);
+
+export function LogisticsPanel() {
+	const {
+		globalDefaults,
+		addLogisticsRoute,
+		addLogisticsFleetTargets,
+		removeLogisticsRoute,
+		setLogisticsConfig,
+	} = useCalculator();
+	const { carrierStats, shipments, fleet } = useLogistics();
+	const [open, setOpen] = useState(false);
+	const [itemId, setItemId] = useState<number | null>(null);
+	const [station, setStation] = useState<LogisticsStationKind>("interstellar");
+	const [distance, setDistance] = useState(1);
+	const [rate, setRate] = useState("");
+	const [buildMinutes, setBuildMinutes] = useState(10);
+	const config = globalDefaults.logistics ?? DEFAULT_LOGISTICS_CONFIG;
+	const unit = DISTANCE_UNITS[station];
+
+	return (
+		<div className="mt-2 space-y-1">
+			<button
+				type="button"
+				onClick={() => setOpen(!open)}
+				className="text-xs text-gray-400 hover:text-gray-200"
+			>
+				Logistics {open ? "▴" : "▾"}
+			</button>
+			{open && (
+				<>
+					<label className="flex items-center justify-between text-xs text-gray-400">
+						<span>Carrier engine level</span>
+						<input
+							type="number"
+							value={config.engineLevel}
+							onChange={(e) => {
+								const level = Number(e.target.value);
+								if (Number.isInteger(level) && level >= 0) {
+									setLogisticsConfig({ ...config, engineLevel: level });
+								}
+							}}
+							min={0}
+							step={1}
+							className="w-20 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100"
+						/>
+					</label>
+					<label className="flex items-center justify-between text-xs text-gray-400">
+						<span>Carrier capacity level</span>
+						<input
+							type="number"
+							value={config.capacityLevel}
+							onChange={(e) => {
+								const level = Number(e.target.value);
+								if (Number.isInteger(level) && level >= 0) {
+									setLogisticsConfig({ ...config, capacityLevel: level });
+								}
+							}}
+							min={0}
+							step={1}
+							className="w-20 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100"
+						/>
+					</label>
+					<label className="flex items-center justify-between text-xs text-gray-400">
+						<span>Warp from (AU)</span>
+						<input
+							type="number"
+							value={config.warpDistance / AU}
+							onChange={(e) => {
+								const au = Number(e.target.value);
+								if (au > 0) {
+									setLogisticsConfig({ ...config, warpDistance: au * AU });
+								}
+							}}
+							min={0.5}
+							step={0.5}
+							disabled={!carrierStats.warpDrive}
+							title={
+								carrierStats.warpDrive
+									? undefined
+									: "Vessels can't warp before Logistics Carrier Engine research"
+							}
+							className="w-20 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100 disabled:text-gray-500"
+						/>
+					</label>
+					<div className="text-xs text-gray-500">
+						Drones {carrierStats.droneSpeed.toFixed(1)} m/s ×
+						{carrierStats.droneCapacity} · Vessels{" "}
+						{carrierStats.vesselSpeed.toFixed(0)} m/s ×
+						{carrierStats.vesselCapacity}
+					</div>
+					<div className="flex items-center gap-1">
+						<select
+							value={itemId ?? ""}
+							onChange={(e) => setItemId(Number(e.target.value) || null)}
+							className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100"
+						>
+							<option value="">Select item...</option>
+							{SORTED_ITEMS.map((item) => (
+								<option key={item.ID} value={item.ID}>
+									{item.Name}
+								</option>
+							))}
+						</select>
+						<select
+							value={station}
+							onChange={(e) =>
+								setStation(e.target.value as LogisticsStationKind)
+							}
+							className="bg-gray-800 border border-gray-700 rounded px-1 py-1 text-sm text-gray-100"
+						>
+							<option value="planetary">PLS</option>
+							<option value="interstellar">ILS</option>
+						</select>
+					</div>
+					<div className="flex items-center gap-1">
+						<input
+							type="number"
+							value={distance}
+							onChange={(e) => setDistance(Number(e.target.value))}
+							min={0}
+							title={`One-way distance in ${unit.label}`}
+							className="w-16 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100"
+						/>
+						<span className="text-xs text-gray-400">{unit.label}</span>
+						<input
+							type="number"
+							value={rate}
+							onChange={(e) => setRate(e.target.value)}
+							min={0}
+							placeholder="plan"
+							title="Items per second; the plan's demand when empty"
+							className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100"
+						/>
+						<span className="text-xs text-gray-400">/s</span>
+						<button
+							type="button"
+							onClick={() => {
+								if (itemId === null) return;
+								addLogisticsRoute({
+									itemId,
+									station,
+									distance: distance * unit.metres,
+									rate: Number(rate) > 0 ? Number(rate) : undefined,
+								});
+								setItemId(null);
+								setRate("");
+							}}
+							disabled={itemId === null || distance <= 0}
+							className="px-2 py-1 text-xs rounded bg-blue-600 text-white disabled:bg-gray-700 disabled:text-gray-500"
+						>
+							Ship
+						</button>
+					</div>
+				</>
+			)}
+
+			{shipments.map(
+				({
+					route,
+					rate,
+					carriers,
+					carrierItemId,
+					stations,
+					receivingStations,
+					stationItemId,
+					warping,
+					warperRate,
+				}) => {
+					const item = DSPData.getItemById(route.itemId);
+					const carrier = DSPData.getItemById(carrierItemId);
+					const stationItem = DSPData.getItemById(stationItemId);
+					const routeUnit = DISTANCE_UNITS[route.station];
+					return (
+						<div
+							key={route.id}
+							className="p-2 rounded-lg border border-gray-700 bg-gray-800 space-y-1"
+						>
+							<div className="flex items-center gap-1 text-sm text-gray-100">
+								{item && <GameIcon name={item.Name} size={18} />}
+								<span className="flex-1 truncate">{item?.Name}</span>
+								<span className="text-xs text-gray-400">
+									{rate.toFixed(2)}/s
+									{route.rate === undefined && " (plan)"}
+								</span>
+								<button
+									type="button"
+									onClick={() => removeLogisticsRoute(route.id)}
+									className="text-gray-400 hover:text-red-400"
+								>
+									✕
+								</button>
+							</div>
+							<div className="flex items-center gap-1 text-xs text-gray-400">
+								{stationItem && <GameIcon name={stationItem.Name} size={16} />}
+								<span
+									title={`${stations} supplying, ${receivingStations} receiving`}
+								>
+									×{stations + receivingStations}
+								</span>
+								{carrier && <GameIcon name={carrier.Name} size={16} />}
+								<span className="flex-1">×{carriers.toFixed(1)}</span>
+								<span>
+									{(route.distance / routeUnit.metres).toLocaleString()}{" "}
+									{routeUnit.label}
+								</span>
+								{warping && (
+									<span
+										className="text-purple-400"
+										title="Space warpers per second"
+									>
+										🌀{warperRate.toFixed(3)}/s
+									</span>
+								)}
+							</div>
+						</div>
+					);
+				},
+			)}
+
+			{fleet.size > 0 && (
+				<div className="flex items-center gap-1 text-xs text-gray-400">
+					{Array.from(fleet.entries()).map(([fleetItemId, count]) => {
+						const item = DSPData.getItemById(fleetItemId);
+						return (
+							<span
+								key={fleetItemId}
+								title={item?.Name}
+								className="flex items-center gap-0.5"
+							>
+								{item && <GameIcon name={item.Name} size={16} />}
+								{count}
+							</span>
+						);
+					})}
+					<input
+						type="number"
+						value={buildMinutes}
+						onChange={(e) => setBuildMinutes(Number(e.target.value))}
+						min={1}
+						title="Minutes to build the fleet in"
+						className="ml-auto w-12 bg-gray-800 border border-gray-700 rounded px-1 py-0.5 text-xs text-gray-100"
+					/>
+					<span>min</span>
+					<button
+						type="button"
+						onClick={() => addLogisticsFleetTargets(buildMinutes * 60)}
+						disabled={buildMinutes <= 0}
+						title="Add targets that build the stations and carriers"
+						className="px-2 py-0.5 rounded bg-blue-600 text-white disabled:bg-gray-700 disabled:text-gray-500"
+					>
+						Build
+					</button>
+				</div>
+			)}
+		</div>
+	);
+}
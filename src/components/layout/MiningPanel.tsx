@@ -0,0 +1,64 @@
+import { useCalculator } from "@/hooks/use-calculator";
+import {
+	DEFAULT_MINING_CONFIG,
+	MINER_VEIN_RATES,
+} from "@/lib/calculator/models";
+import { DSPData } from "@/lib/data/dsp-data";
+
+export function MiningPanel() {
+	const { globalDefaults, setDefaultMining, setMiningSpeed } = useCalculator();
+	const mining = globalDefaults.mining ?? DEFAULT_MINING_CONFIG;
+	const miningSpeed = globalDefaults.miningSpeed ?? 1;
+
+	return (
+		<div className="mb-2 space-y-1">
+			<div className="flex items-center gap-1">
+				<select
+					value={mining.minerItemId}
+					onChange={(e) =>
+						setDefaultMining({
+							...mining,
+							minerItemId: Number(e.target.value),
+							speedSetting: 1,
+						})
+					}
+					className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100"
+				>
+					{Object.keys(MINER_VEIN_RATES).map((id) => (
+						<option key={id} value={id}>
+							{DSPData.getItemById(Number(id))?.Name}
+						</option>
+					))}
+				</select>
+				<input
+					type="number"
+					value={mining.veinsPerMiner}
+					onChange={(e) => {
+						const veinsPerMiner = Number(e.target.value);
+						if (veinsPerMiner > 0) {
+							setDefaultMining({ ...mining, veinsPerMiner });
+						}
+					}}
+					min={1}
+					step={1}
+					title="Veins per miner"
+					className="w-14 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100"
+				/>
+			</div>
+			<label className="flex items-center justify-between text-xs text-gray-400">
+				<span>Mining speed research (%)</span>
+				<input
+					type="number"
+					value={Math.round(miningSpeed * 100)}
+					onChange={(e) => {
+						const percent = Number(e.target.value);
+						if (percent > 0) setMiningSpeed(percent / 100);
+					}}
+					min={100}
+					step={10}
+					className="w-20 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100"
+				/>
+			</label>
+		</div>
+	);
+}
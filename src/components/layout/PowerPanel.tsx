@@ -0,0 +1,90 @@
+import { GameIcon } from "@/components/ui/GameIcon";
+import { useCalculator, usePowerGeneration } from "@/hooks/use-calculator";
+import { GENERATOR_FUEL_TYPES } from "@/lib/calculator/power";
+import { BuildingDetailsService } from "@/lib/data/building-details-service";
+import { DSPData } from "@/lib/data/dsp-data";
+import { formatPower } from "@/lib/utils";
+
+const generators = BuildingDetailsService.getGenerators();
+
+function getFuels(generatorItemId: number) {
+	const fuelType = GENERATOR_FUEL_TYPES[generatorItemId];
+	return fuelType ? DSPData.getFuelItems(fuelType) : [];
+}
+
+export function PowerPanel() {
+	const { powerGeneration, setPowerGeneration } = useCalculator();
+	const { requiredPower, generation } = usePowerGeneration();
+	const fuels = powerGeneration
+		? getFuels(powerGeneration.generatorItemId)
+		: [];
+	const generatorItem = powerGeneration
+		? DSPData.getItemById(powerGeneration.generatorItemId)
+		: null;
+	const fuelItem = generation?.fuelItemId
+		? DSPData.getItemById(generation.fuelItemId)
+		: null;
+
+	return (
+		<div className="mt-2 space-y-1">
+			<div className="flex justify-between text-xs text-gray-400">
+				<span>Power</span>
+				<span>⚡ {formatPower(requiredPower)}</span>
+			</div>
+			<select
+				value={powerGeneration?.generatorItemId ?? ""}
+				onChange={(e) => {
+					const generatorItemId = Number(e.target.value);
+					if (!generatorItemId) {
+						setPowerGeneration(null);
+						return;
+					}
+					setPowerGeneration({
+						generatorItemId,
+						fuelItemId: getFuels(generatorItemId)[0]?.ID ?? null,
+					});
+				}}
+				className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100"
+			>
+				<option value="">No generators</option>
+				{generators.map((generator) => (
+					<option key={generator.itemId} value={generator.itemId}>
+						{generator.name} ({formatPower(generator.power)})
+					</option>
+				))}
+			</select>
+			{powerGeneration && fuels.length > 0 && (
+				<select
+					value={powerGeneration.fuelItemId ?? ""}
+					onChange={(e) =>
+						setPowerGeneration({
+							...powerGeneration,
+							fuelItemId: Number(e.target.value),
+						})
+					}
+					className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100"
+				>
+					{fuels.map((fuel) => (
+						<option key={fuel.ID} value={fuel.ID}>
+							{fuel.Name}
+						</option>
+					))}
+				</select>
+			)}
+			{generation && generatorItem && (
+				<div className="flex items-center gap-1 text-sm text-gray-300">
+					<GameIcon name={generatorItem.Name} size={18} />
+					<span className="flex-1">{generatorItem.Name}</span>
+					<span>x{generation.generatorCount.toFixed(2)}</span>
+				</div>
+			)}
+			{generation && fuelItem && (
+				<div className="flex items-center gap-1 text-sm text-gray-300">
+					<GameIcon name={fuelItem.Name} size={18} />
+					<span className="flex-1">{fuelItem.Name}</span>
+					<span>{generation.fuelRate.toFixed(3)}/s</span>
+				</div>
+			)}
+		</div>
+	);
+}
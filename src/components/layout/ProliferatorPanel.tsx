@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { useCalculator } from "@/hooks/use-calculator";
+import type {
+	ProliferatorPolicy,
+	ProliferatorPolicyMode,
+	ProliferatorPolicyScope,
+	RecipeSource,
+	RecipeType,
+} from "@/lib/calculator/models";
+import { DSPData } from "@/lib/data/dsp-data";
+
+const POLICY_MODES: { mode: ProliferatorPolicyMode; label: string }[] = [
+	{ mode: "none", label: "None" },
+	{ mode: "speed", label: "⚡ Speed" },
+	{ mode: "product", label: "📦 Product" },
+	{ mode: "productOrSpeed", label: "📦 Product, else ⚡" },
+];
+
+const LEVELS = [1, 2, 3];
+
+// Scopes travel through the select as "plan", "target:<id>" or "recipeType:<type>"
+function parseScope(value: string): ProliferatorPolicyScope {
+	const [type, key] = value.split(/:(.*)/);
+	if (type === "target") return { type: "target", targetId: key };
+	if (type === "recipeType") {
+		return { type: "recipeType", recipeType: key as RecipeType };
+	}
+	return { type: "plan" };
+}
+
+export function ProliferatorPanel() {
+	const { targets, elements, applyProliferatorPolicy } = useCalculator();
+	const [policy, setPolicy] = useState<ProliferatorPolicy>({
+		mode: "productOrSpeed",
+		level: 3,
+	});
+	const [scope, setScope] = useState("plan");
+
+	const recipeTypes = Array.from(
+		new Set(
+			Object.values(elements)
+				.filter((element) => element.source?.type === "recipe")
+				.map((element) => (element.source as RecipeSource).recipeType)
+				.filter((recipeType) => recipeType !== undefined),
+		),
+	).sort();
+
+	if (targets.length === 0) return null;
+
+	return (
+		<div className="mt-2 space-y-1">
+			<div className="text-xs text-gray-400">Proliferator policy</div>
+			<div className="flex items-center gap-1">
+				<select
+					value={policy.mode}
+					onChange={(e) =>
+						setPolicy({
+							...policy,
+							mode: e.target.value as ProliferatorPolicyMode,
+						})
+					}
+					className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100"
+				>
+					{POLICY_MODES.map(({ mode, label }) => (
+						<option key={mode} value={mode}>
+							{label}
+						</option>
+					))}
+				</select>
+				<select
+					value={policy.level}
+					onChange={(e) =>
+						setPolicy({ ...policy, level: Number(e.target.value) })
+					}
+					disabled={policy.mode === "none"}
+					className="w-20 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100 disabled:text-gray-500"
+				>
+					{LEVELS.map((level) => (
+						<option key={level} value={level}>
+							Mk.{["I", "II", "III"][level - 1]}
+						</option>
+					))}
+				</select>
+			</div>
+			<div className="flex items-center gap-1">
+				<select
+					value={scope}
+					onChange={(e) => setScope(e.target.value)}
+					className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100"
+				>
+					<option value="plan">Whole plan</option>
+					{targets.map((target) => (
+						<option key={target.id} value={`target:${target.id}`}>
+							{DSPData.getItemById(target.itemId)?.Name ?? target.itemId}
+						</option>
+					))}
+					{recipeTypes.map((recipeType) => (
+						<option key={recipeType} value={`recipeType:${recipeType}`}>
+							All {recipeType} recipes
+						</option>
+					))}
+				</select>
+				<button
+					type="button"
+					onClick={() => applyProliferatorPolicy(policy, parseScope(scope))}
+					className="px-3 py-1 text-xs rounded bg-green-700 text-white hover:bg-green-600"
+				>
+					Apply
+				</button>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,45 @@
+import { useState } from "react";
+import { useCalculator } from "@/hooks/use-calculator";
+import type { RecipeObjective } from "@/lib/calculator/optimizer";
+
+const OBJECTIVES: { objective: RecipeObjective; label: string }[] = [
+	{ objective: "ore", label: "Least ore" },
+	{ objective: "buildings", label: "Fewest buildings" },
+	{ objective: "power", label: "Least power" },
+];
+
+/** Picks the recipes for a target's chain that minimize an objective */
+export function RecipeOptimizerMenu({ targetId }: { targetId: string }) {
+	const { optimizeTargetRecipes } = useCalculator();
+	const [open, setOpen] = useState(false);
+
+	return (
+		<div className="relative">
+			<button
+				type="button"
+				onClick={() => setOpen(!open)}
+				className="text-gray-400 hover:text-emerald-400"
+				title="Optimize recipes"
+			>
+				🧮
+			</button>
+			{open && (
+				<div className="absolute right-0 z-10 mt-1 w-40 rounded border border-gray-700 bg-gray-800 py-1 shadow-lg">
+					{OBJECTIVES.map(({ objective, label }) => (
+						<button
+							key={objective}
+							type="button"
+							onClick={() => {
+								optimizeTargetRecipes(targetId, objective);
+								setOpen(false);
+							}}
+							className="block w-full px-3 py-1 text-left text-xs text-gray-300 hover:bg-gray-700"
+						>
+							{label}
+						</button>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
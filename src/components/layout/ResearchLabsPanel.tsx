@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { GameIcon } from "@/components/ui/GameIcon";
+import { useCalculator, useResearchLabs } from "@/hooks/use-calculator";
+import { BASE_LAB_STACK_HEIGHT } from "@/lib/calculator/research";
+import { DSPData } from "@/lib/data/dsp-data";
+import { formatPower } from "@/lib/utils";
+
+export function ResearchLabsPanel() {
+	const {
+		globalDefaults,
+		addResearchTarget,
+		removeResearchTarget,
+		updateResearchTargetRate,
+		setResearchSpeed,
+		setLabStackHeight,
+	} = useCalculator();
+	const researchLabs = useResearchLabs();
+	const [open, setOpen] = useState(false);
+	const [techId, setTechId] = useState<number | null>(null);
+	const [hashRate, setHashRate] = useState(60);
+	const researchSpeed = globalDefaults.researchSpeed ?? 1;
+	const stackHeight = globalDefaults.labStackHeight ?? BASE_LAB_STACK_HEIGHT;
+
+	return (
+		<div className="mt-2 space-y-1">
+			<button
+				type="button"
+				onClick={() => setOpen(!open)}
+				className="text-xs text-gray-400 hover:text-gray-200"
+			>
+				Research labs {open ? "▴" : "▾"}
+			</button>
+			{open && (
+				<>
+					<label className="flex items-center justify-between text-xs text-gray-400">
+						<span>Research speed (%)</span>
+						<input
+							type="number"
+							value={Math.round(researchSpeed * 100)}
+							onChange={(e) => {
+								const percent = Number(e.target.value);
+								if (percent > 0) setResearchSpeed(percent / 100);
+							}}
+							min={100}
+							step={100}
+							className="w-20 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100"
+						/>
+					</label>
+					<label className="flex items-center justify-between text-xs text-gray-400">
+						<span>Labs per stack</span>
+						<input
+							type="number"
+							value={stackHeight}
+							onChange={(e) => {
+								const height = Number(e.target.value);
+								if (Number.isInteger(height) && height > 0) {
+									setLabStackHeight(height);
+								}
+							}}
+							min={1}
+							step={1}
+							className="w-20 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100"
+						/>
+					</label>
+					<div className="flex items-center gap-1">
+						<select
+							value={techId ?? ""}
+							onChange={(e) => setTechId(Number(e.target.value) || null)}
+							className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100"
+						>
+							<option value="">Select tech...</option>
+							{DSPData.techs
+								.filter((t) => t.Published && t.Items.length > 0)
+								.map((t) => (
+									<option key={t.ID} value={t.ID}>
+										{t.Name}
+									</option>
+								))}
+						</select>
+						<input
+							type="number"
+							value={hashRate}
+							onChange={(e) => setHashRate(Number(e.target.value))}
+							min={1}
+							title="Hashes per second"
+							className="w-16 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100"
+						/>
+						<button
+							type="button"
+							onClick={() => {
+								if (techId === null) return;
+								addResearchTarget(techId, hashRate);
+								setTechId(null);
+							}}
+							disabled={techId === null || hashRate <= 0}
+							className="px-2 py-1 text-xs rounded bg-blue-600 text-white disabled:bg-gray-700 disabled:text-gray-500"
+						>
+							Add
+						</button>
+					</div>
+				</>
+			)}
+
+			{researchLabs.map(
+				({ target, labItemId, labs, stacks, power, itemRates }) => {
+					const tech = DSPData.getTechById(target.techId);
+					const lab = DSPData.getItemById(labItemId);
+					return (
+						<div
+							key={target.id}
+							className="p-2 rounded-lg border border-gray-700 bg-gray-800 space-y-1"
+						>
+							<div className="flex items-center gap-1 text-sm text-gray-100">
+								<span className="flex-1 truncate">{tech?.Name}</span>
+								<input
+									type="number"
+									defaultValue={target.hashRate}
+									min={1}
+									title="Hashes per second"
+									onBlur={(e) => {
+										const rate = Number(e.target.value);
+										if (rate > 0 && rate !== target.hashRate) {
+											updateResearchTargetRate(target.id, rate);
+										}
+									}}
+									className="w-16 bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-xs text-gray-100"
+								/>
+								<span className="text-xs text-gray-400">H/s</span>
+								<button
+									type="button"
+									onClick={() => removeResearchTarget(target.id)}
+									className="text-gray-400 hover:text-red-400"
+								>
+									✕
+								</button>
+							</div>
+							<div className="flex items-center gap-1 text-xs text-gray-400">
+								{lab && <GameIcon name={lab.Name} size={18} />}
+								<span className="flex-1">
+									×{labs.toFixed(2)} in {stacks}{" "}
+									{stacks === 1 ? "stack" : "stacks"}
+								</span>
+								<span>{formatPower(power)}</span>
+							</div>
+							{Array.from(itemRates.entries()).map(([itemId, rate]) => {
+								const item = DSPData.getItemById(itemId);
+								return (
+									<div
+										key={itemId}
+										className="flex items-center gap-1 text-xs text-gray-300"
+									>
+										{item && <GameIcon name={item.Name} size={16} />}
+										<span className="flex-1 truncate">{item?.Name}</span>
+										<span>{rate.toFixed(3)}/s</span>
+									</div>
+								);
+							})}
+						</div>
+					);
+				},
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,67 @@
+import { useState } from "react";
+import { useCalculator } from "@/hooks/use-calculator";
+import { DSPData } from "@/lib/data/dsp-data";
+
+export function ResearchPanel() {
+	const { research, setResearchEnabled, setTechCompleted } = useCalculator();
+	const [editing, setEditing] = useState(false);
+	const [filter, setFilter] = useState("");
+	const completed = new Set(research?.completedTechIds ?? []);
+	const techs = DSPData.mainTechs.filter((tech) =>
+		tech.Name.toLowerCase().includes(filter.toLowerCase()),
+	);
+
+	return (
+		<div className="mt-2 space-y-1">
+			<div className="flex items-center justify-between text-xs text-gray-400">
+				<label
+					className="flex items-center gap-1"
+					title="Only offer recipes and buildings from researched techs"
+				>
+					<input
+						type="checkbox"
+						checked={research?.enabled ?? false}
+						onChange={(e) => setResearchEnabled(e.target.checked)}
+					/>
+					Research
+				</label>
+				{research?.enabled && (
+					<button
+						type="button"
+						onClick={() => setEditing(!editing)}
+						className="hover:text-gray-200"
+					>
+						{completed.size} / {DSPData.mainTechs.length} techs{" "}
+						{editing ? "▴" : "▾"}
+					</button>
+				)}
+			</div>
+			{research?.enabled && editing && (
+				<>
+					<input
+						type="text"
+						value={filter}
+						onChange={(e) => setFilter(e.target.value)}
+						placeholder="Filter techs..."
+						className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100"
+					/>
+					<div className="max-h-40 overflow-y-auto space-y-0.5">
+						{techs.map((tech) => (
+							<label
+								key={tech.ID}
+								className="flex items-center gap-2 text-xs text-gray-300"
+							>
+								<input
+									type="checkbox"
+									checked={completed.has(tech.ID)}
+									onChange={(e) => setTechCompleted(tech.ID, e.target.checked)}
+								/>
+								<span className="truncate">{tech.Name}</span>
+							</label>
+						))}
+					</div>
+				</>
+			)}
+		</div>
+	);
+}
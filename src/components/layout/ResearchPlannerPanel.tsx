@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { GameIcon } from "@/components/ui/GameIcon";
+import { useCalculator } from "@/hooks/use-calculator";
+import type { ResearchSelection } from "@/lib/calculator/research";
+import { DSPData } from "@/lib/data/dsp-data";
+import type { Tech } from "@/lib/data/models";
+
+function getTechLabel(tech: Tech): string {
+	if (tech.MaxLevel > tech.Level) return `${tech.Name} Lv.${tech.Level}+`;
+	return tech.Level > 0 ? `${tech.Name} Lv.${tech.Level}` : tech.Name;
+}
+
+function formatHashes(hashes: number): string {
+	return Math.round(hashes).toLocaleString();
+}
+
+export function ResearchPlannerPanel() {
+	const { addResearchTargets, getResearchCost } = useCalculator();
+	const [open, setOpen] = useState(false);
+	const [selections, setSelections] = useState<ResearchSelection[]>([]);
+	const [techId, setTechId] = useState<number | null>(null);
+	const [toLevel, setToLevel] = useState(0);
+	const [minutes, setMinutes] = useState(60);
+
+	const tech = techId !== null ? DSPData.getTechById(techId) : undefined;
+	const repeatable = tech !== undefined && tech.MaxLevel > tech.Level;
+	const cost = getResearchCost(selections);
+
+	return (
+		<div className="mt-2 space-y-1">
+			<button
+				type="button"
+				onClick={() => setOpen(!open)}
+				className="text-xs text-gray-400 hover:text-gray-200"
+			>
+				Research planner {open ? "▴" : "▾"}
+			</button>
+			{open && (
+				<>
+					<div className="flex items-center gap-1">
+						<select
+							value={techId ?? ""}
+							onChange={(e) => {
+								const id = Number(e.target.value) || null;
+								setTechId(id);
+								setToLevel(id ? (DSPData.getTechById(id)?.Level ?? 0) : 0);
+							}}
+							className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100"
+						>
+							<option value="">Select tech...</option>
+							{DSPData.techs
+								.filter((t) => t.Published && t.Items.length > 0)
+								.map((t) => (
+									<option key={t.ID} value={t.ID}>
+										{getTechLabel(t)}
+									</option>
+								))}
+						</select>
+						{repeatable && (
+							<input
+								type="number"
+								value={toLevel}
+								onChange={(e) => setToLevel(Number(e.target.value))}
+								min={tech.Level}
+								max={tech.MaxLevel}
+								title="Research up to this level"
+								className="w-16 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100"
+							/>
+						)}
+						<button
+							type="button"
+							onClick={() => {
+								if (!tech) return;
+								setSelections([
+									...selections,
+									{
+										techId: tech.ID,
+										fromLevel: tech.Level,
+										toLevel: repeatable
+											? Math.max(tech.Level, toLevel)
+											: tech.Level,
+									},
+								]);
+								setTechId(null);
+							}}
+							disabled={!tech}
+							className="px-2 py-1 text-xs rounded bg-blue-600 text-white disabled:bg-gray-700 disabled:text-gray-500"
+						>
+							Add
+						</button>
+					</div>
+
+					{selections.map((selection, index) => {
+						const selected = DSPData.getTechById(selection.techId);
+						if (!selected) return null;
+						return (
+							<div
+								key={`${selection.techId}-${index}`}
+								className="flex items-center justify-between text-xs text-gray-300"
+							>
+								<span className="truncate">
+									{selected.Name}
+									{selection.toLevel !== selection.fromLevel &&
+										` Lv.${selection.fromLevel}–${selection.toLevel}`}
+								</span>
+								<button
+									type="button"
+									onClick={() =>
+										setSelections(selections.filter((_, i) => i !== index))
+									}
+									className="text-gray-400 hover:text-red-400"
+								>
+									✕
+								</button>
+							</div>
+						);
+					})}
+
+					{cost.hashes > 0 && (
+						<>
+							<div className="flex justify-between text-xs text-gray-400">
+								<span>Hashes</span>
+								<span>{formatHashes(cost.hashes)}</span>
+							</div>
+							{Array.from(cost.items.entries()).map(([itemId, count]) => {
+								const item = DSPData.getItemById(itemId);
+								return (
+									<div
+										key={itemId}
+										className="flex items-center gap-1 text-sm text-gray-300"
+									>
+										{item && <GameIcon name={item.Name} size={18} />}
+										<span className="flex-1 truncate">{item?.Name}</span>
+										<span>{Math.ceil(count).toLocaleString()}</span>
+									</div>
+								);
+							})}
+							<div className="flex items-center gap-1">
+								<label className="flex flex-1 items-center gap-1 text-xs text-gray-400">
+									<span>Finish in (min)</span>
+									<input
+										type="number"
+										value={minutes}
+										onChange={(e) => setMinutes(Number(e.target.value))}
+										min={1}
+										className="w-16 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100"
+									/>
+								</label>
+								<button
+									type="button"
+									onClick={() => {
+										addResearchTargets(selections, minutes * 60);
+										setSelections([]);
+									}}
+									disabled={minutes <= 0}
+									className="px-2 py-1 text-xs rounded bg-emerald-600 text-white disabled:bg-gray-700 disabled:text-gray-500"
+								>
+									Add targets
+								</button>
+							</div>
+						</>
+					)}
+				</>
+			)}
+		</div>
+	);
+}
@@ -1,12 +1,37 @@
 import { Link, useLocation } from "@tanstack/react-router";
-import { useMemo, useState } from "react";
+import { useState } from "react";
+import { FacilityCount } from "@/components/graph/FacilityCount";
+import { GatheringPanel } from "@/components/layout/GatheringPanel";
+import { LogisticsPanel } from "@/components/layout/LogisticsPanel";
+import { MiningPanel } from "@/components/layout/MiningPanel";
+import { PowerPanel } from "@/components/layout/PowerPanel";
+import { ProliferatorPanel } from "@/components/layout/ProliferatorPanel";
+import { RecipeOptimizerMenu } from "@/components/layout/RecipeOptimizerMenu";
+import { ResearchLabsPanel } from "@/components/layout/ResearchLabsPanel";
+import { ResearchPanel } from "@/components/layout/ResearchPanel";
+import { ResearchPlannerPanel } from "@/components/layout/ResearchPlannerPanel";
 import { GameIcon } from "@/components/ui/GameIcon";
 import {
 	useCalculator,
 	useFacilitySummary,
+	useProliferatorDemand,
 	useResourceNeeds,
 } from "@/hooks/use-calculator";
+import type { PlanMode, RoundingMode } from "@/lib/calculator/models";
 import { DSPData } from "@/lib/data/dsp-data";
+import { formatPower } from "@/lib/utils";
+
+const PLAN_MODES: { mode: PlanMode; label: string }[] = [
+	{ mode: "tree", label: "Per Target" },
+	{ mode: "shared", label: "Shared" },
+	{ mode: "solver", label: "Solver" },
+];
+
+const ROUNDING_MODES: { mode: RoundingMode; label: string }[] = [
+	{ mode: "exact", label: "Exact" },
+	{ mode: "element", label: "Per Node" },
+	{ mode: "item", label: "Per Item" },
+];
 
 export function Sidebar() {
 	const {
@@ -15,32 +40,21 @@ export function Sidebar() {
 		getPerFacilityRate,
 		removeTarget,
 		clearTotalsNodePositions,
+		planMode,
+		setPlanMode,
+		solverStatus,
+		rounding,
+		setRounding,
+		produceProliferators,
+		setProduceProliferators,
+		getAvailableRecipes,
+		getGatherer,
+		globalDefaults,
 	} = useCalculator();
 	const resourceNeeds = useResourceNeeds();
 	const facilitySummary = useFacilitySummary();
 	const location = useLocation();
-	const { elements } = useCalculator();
-
-	// Calculate total proliferator consumption
-	const proliferatorConsumption = useMemo(() => {
-		const consumption = new Map<number, number>();
-		for (const element of Object.values(elements)) {
-			const el = element as {
-				proliferatorConsumption?: { itemId: number; itemsPerSecond: number };
-			};
-			if (el.proliferatorConsumption) {
-				const current = consumption.get(el.proliferatorConsumption.itemId) ?? 0;
-				consumption.set(
-					el.proliferatorConsumption.itemId,
-					current + el.proliferatorConsumption.itemsPerSecond,
-				);
-			}
-		}
-		return Array.from(consumption.entries()).map(([itemId, rate]) => ({
-			itemId,
-			rate,
-		}));
-	}, [elements]);
+	const proliferatorDemand = useProliferatorDemand();
 
 	const [selectedItemId, setSelectedItemId] = useState<number | null>(null);
 	const [facilityCount, setFacilityCount] = useState(1);
@@ -49,7 +63,7 @@ export function Sidebar() {
 		<aside className="w-80 border-r border-gray-700 bg-gray-900 flex flex-col h-screen">
 			<div className="p-4 border-b border-gray-700">
 				<h2 className="font-semibold text-gray-100">Production Targets</h2>
-				<div className="mt-2 flex gap-1">
+				<div className="mt-2 flex flex-wrap gap-1">
 					<Link
 						to="/calculator"
 						className="px-3 py-1 text-xs rounded"
@@ -76,6 +90,45 @@ export function Sidebar() {
 					>
 						Totals View
 					</Link>
+					<Link
+						to="/techs"
+						className="px-3 py-1 text-xs rounded"
+						activeProps={{
+							className: "px-3 py-1 text-xs rounded bg-emerald-600 text-white",
+						}}
+						inactiveProps={{
+							className:
+								"px-3 py-1 text-xs rounded bg-gray-800 text-gray-400 hover:text-gray-200",
+						}}
+					>
+						Tech Tree
+					</Link>
+					<Link
+						to="/recipes"
+						className="px-3 py-1 text-xs rounded"
+						activeProps={{
+							className: "px-3 py-1 text-xs rounded bg-emerald-600 text-white",
+						}}
+						inactiveProps={{
+							className:
+								"px-3 py-1 text-xs rounded bg-gray-800 text-gray-400 hover:text-gray-200",
+						}}
+					>
+						Recipes
+					</Link>
+					<Link
+						to="/buildings"
+						className="px-3 py-1 text-xs rounded"
+						activeProps={{
+							className: "px-3 py-1 text-xs rounded bg-emerald-600 text-white",
+						}}
+						inactiveProps={{
+							className:
+								"px-3 py-1 text-xs rounded bg-gray-800 text-gray-400 hover:text-gray-200",
+						}}
+					>
+						Buildings
+					</Link>
 					{location.pathname === "/totals" && (
 						<button
 							type="button"
@@ -86,6 +139,63 @@ export function Sidebar() {
 						</button>
 					)}
 				</div>
+				<div className="mt-2 flex gap-1">
+					{PLAN_MODES.map(({ mode, label }) => (
+						<button
+							key={mode}
+							type="button"
+							onClick={() => setPlanMode(mode)}
+							className={`px-3 py-1 text-xs rounded ${
+								planMode === mode
+									? "bg-emerald-600 text-white"
+									: "bg-gray-800 text-gray-400 hover:text-gray-200"
+							}`}
+						>
+							{label}
+						</button>
+					))}
+					{planMode === "solver" && solverStatus === "infeasible" && (
+						<span
+							title="Rates are from the last plan the solver could balance"
+							className="self-center text-xs text-red-400"
+						>
+							No feasible plan
+						</span>
+					)}
+				</div>
+				<div className="mt-2 flex items-center gap-1">
+					{ROUNDING_MODES.map(({ mode, label }) => (
+						<button
+							key={mode}
+							type="button"
+							onClick={() => setRounding({ ...rounding, mode })}
+							className={`px-3 py-1 text-xs rounded ${
+								rounding.mode === mode
+									? "bg-sky-600 text-white"
+									: "bg-gray-800 text-gray-400 hover:text-gray-200"
+							}`}
+						>
+							{label}
+						</button>
+					))}
+					<label
+						className="ml-auto flex items-center gap-1 text-xs text-gray-400"
+						title="Run rounded-up facilities at full speed and feed the extra into their inputs"
+					>
+						<input
+							type="checkbox"
+							checked={rounding.propagate}
+							onChange={(e) =>
+								setRounding({ ...rounding, propagate: e.target.checked })
+							}
+						/>
+						Propagate
+					</label>
+				</div>
+				<ResearchPanel />
+				<ResearchPlannerPanel />
+				<ResearchLabsPanel />
+				<LogisticsPanel />
 			</div>
 
 			<div className="p-4 border-b border-gray-700 space-y-2">
@@ -101,9 +211,10 @@ export function Sidebar() {
 					{DSPData.items
 						.filter(
 							(item) =>
-								DSPData.getRecipesProducing(item.ID).length > 0 ||
+								getAvailableRecipes(item.ID).length > 0 ||
 								DSPData.canItemBeMined(item.ID) ||
-								DSPData.canItemBeExtracted(item.ID),
+								DSPData.canItemBeExtracted(item.ID) ||
+								getGatherer(item.ID, globalDefaults) !== undefined,
 						)
 						.sort((a, b) => a.Name.localeCompare(b.Name))
 						.map((item) => (
@@ -151,20 +262,40 @@ export function Sidebar() {
 						>
 							{item && <GameIcon name={item.Name} size={24} />}
 							<div className="flex-1 min-w-0">
-								<div className="font-medium text-sm text-gray-100 truncate">
+								<Link
+									to="/items/$itemId"
+									params={{ itemId: String(target.itemId) }}
+									className="block font-medium text-sm text-gray-100 truncate hover:text-blue-400"
+								>
 									{item?.Name}
-								</div>
+								</Link>
 								<div className="text-xs text-gray-400">
 									{target.targetRate.toFixed(3)}/s
+									{target.auto === "fuel" && (
+										<span className="ml-2 text-yellow-400">⚡ fuel</span>
+									)}
+									{target.auto === "proliferator" && (
+										<span className="ml-2 text-green-400">💧 spray</span>
+									)}
+									{target.auto === "research" && (
+										<span className="ml-2 text-sky-400">🔬 labs</span>
+									)}
+									{target.auto === "logistics" && (
+										<span className="ml-2 text-purple-400">🌀 warpers</span>
+									)}
 								</div>
 							</div>
-							<button
-								type="button"
-								onClick={() => removeTarget(target.id)}
-								className="text-gray-400 hover:text-red-400"
-							>
-								✕
-							</button>
+							{!target.auto && <RecipeOptimizerMenu targetId={target.id} />}
+							{/* Automatic targets follow the plan and can't be removed */}
+							{!target.auto && (
+								<button
+									type="button"
+									onClick={() => removeTarget(target.id)}
+									className="text-gray-400 hover:text-red-400"
+								>
+									✕
+								</button>
+							)}
 						</div>
 					);
 				})}
@@ -173,6 +304,8 @@ export function Sidebar() {
 			<div className="p-4 border-t border-gray-700 max-h-48 overflow-y-auto">
 				<h3 className="font-medium text-gray-100 mb-2">Resources</h3>
 
+				<MiningPanel />
+
 				{resourceNeeds.mined.size > 0 && (
 					<div className="mb-2">
 						<div className="text-xs text-gray-400 mb-1">Mining</div>
@@ -211,10 +344,12 @@ export function Sidebar() {
 					</div>
 				)}
 
+				<GatheringPanel />
+
 				{facilitySummary.length > 0 && (
 					<div className="mt-2">
 						<div className="text-xs text-gray-400 mb-1">Facilities</div>
-						{facilitySummary.map(({ itemId, count }) => {
+						{facilitySummary.map(({ itemId, count, builtCount, power }) => {
 							const item = DSPData.getItemById(itemId);
 							return (
 								<div
@@ -223,7 +358,12 @@ export function Sidebar() {
 								>
 									<span>{item?.Name}</span>
 									<span>
-										x{Number.isInteger(count) ? count : count.toFixed(2)}
+										x<FacilityCount count={count} builtCount={builtCount} />
+										{power > 0 && (
+											<span className="ml-2 text-xs text-gray-500">
+												{formatPower(power)}
+											</span>
+										)}
 									</span>
 								</div>
 							);
@@ -231,10 +371,24 @@ export function Sidebar() {
 					</div>
 				)}
 
-				{proliferatorConsumption.length > 0 && (
+				<PowerPanel />
+
+				<ProliferatorPanel />
+
+				{proliferatorDemand.size > 0 && (
 					<div className="mt-2">
-						<div className="text-xs text-gray-400 mb-1">Proliferators</div>
-						{proliferatorConsumption.map(({ itemId, rate }) => {
+						<div className="flex justify-between text-xs text-gray-400 mb-1">
+							<span>Proliferators</span>
+							<label className="flex items-center gap-1">
+								<input
+									type="checkbox"
+									checked={produceProliferators}
+									onChange={(e) => setProduceProliferators(e.target.checked)}
+								/>
+								Produce
+							</label>
+						</div>
+						{Array.from(proliferatorDemand.entries()).map(([itemId, rate]) => {
 							const item = DSPData.getItemById(itemId);
 							return (
 								<div
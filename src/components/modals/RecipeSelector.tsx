@@ -1,5 +1,9 @@
 import { GameIcon } from "@/components/ui/GameIcon";
 import { useCalculator } from "@/hooks/use-calculator";
+import {
+	CRITICAL_PHOTON_ITEM_ID,
+	RAY_RECEIVER_ITEM_ID,
+} from "@/lib/calculator/gathering";
 import type { RecipeSource } from "@/lib/calculator/models";
 import { DSPData } from "@/lib/data/dsp-data";
 
@@ -14,15 +18,21 @@ export function RecipeSelector({ elementId, onClose }: RecipeSelectorProps) {
 		setElementRecipe,
 		setElementToMining,
 		setElementToExtraction,
+		setElementToGathering,
 		clearElementSource,
+		getAvailableRecipes,
+		isBuildingUnlocked,
 	} = useCalculator();
 	const element = elementId ? elements[elementId] : null;
 	if (!element || !elementId) return null;
 
 	const itemId = element.itemId;
-	const availableRecipes = DSPData.getRecipesProducing(itemId);
+	const availableRecipes = getAvailableRecipes(itemId);
 	const canMine = DSPData.canItemBeMined(itemId);
 	const canExtract = DSPData.canItemBeExtracted(itemId);
+	const canGather =
+		itemId === CRITICAL_PHOTON_ITEM_ID &&
+		isBuildingUnlocked(RAY_RECEIVER_ITEM_ID);
 	const item = DSPData.getItemById(itemId);
 
 	return (
@@ -158,6 +168,29 @@ export function RecipeSelector({ elementId, onClose }: RecipeSelectorProps) {
 						</button>
 					)}
 
+					{canGather && (
+						<button
+							type="button"
+							onClick={() => {
+								setElementToGathering(elementId);
+								onClose();
+							}}
+							className={`w-full flex items-center gap-3 p-3 rounded-lg border transition-colors ${
+								element.source?.type === "gathering"
+									? "border-purple-500 bg-purple-500/10"
+									: "border-gray-700 hover:border-gray-500"
+							}`}
+						>
+							<GameIcon name="Ray_Receiver" size={40} />
+							<div>
+								<div className="font-medium text-gray-100">Ray Receivers</div>
+								<div className="text-sm text-gray-400">
+									Gather photons from the Dyson sphere
+								</div>
+							</div>
+						</button>
+					)}
+
 					<button
 						type="button"
 						onClick={() => {
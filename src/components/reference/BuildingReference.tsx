@@ -0,0 +1,182 @@
+import { Link } from "@tanstack/react-router";
+import { FacilityCount } from "@/components/graph/FacilityCount";
+import { GameIcon } from "@/components/ui/GameIcon";
+import { useCalculator, useFacilitySummary } from "@/hooks/use-calculator";
+import {
+	type BuildingReference as Building,
+	BuildingDetailsService,
+	type BuildingStats,
+} from "@/lib/data/building-details-service";
+import { DSPData } from "@/lib/data/dsp-data";
+import { formatEnergy, formatPower } from "@/lib/utils";
+
+const BUILDINGS = BuildingDetailsService.getBuildings();
+
+const CATEGORIES = [...new Set(BUILDINGS.map((b) => b.category))];
+
+const STAT_FORMATS: {
+	key: keyof BuildingStats;
+	label: string;
+	format: (value: number) => string;
+}[] = [
+	{ key: "productionSpeed", label: "Speed", format: (v) => `${v}x` },
+	{ key: "researchSpeed", label: "Research", format: (v) => `${v} H/s` },
+	{
+		key: "gatheringSpeed",
+		label: "Gathering",
+		format: (v) => `${v.toFixed(2)}/s`,
+	},
+	{ key: "transportSpeed", label: "Transport", format: (v) => `${v}/s` },
+	{ key: "sortingSpeed", label: "Sorting", format: (v) => `${v} trips/s` },
+	{ key: "workPower", label: "Work", format: formatPower },
+	{ key: "idlePower", label: "Idle", format: formatPower },
+	{ key: "generationPower", label: "Generation", format: formatPower },
+	{ key: "maxChargingPower", label: "Charging", format: formatPower },
+	{ key: "energyCapacity", label: "Capacity", format: formatEnergy },
+	{ key: "dps", label: "DPS", format: (v) => `${v}` },
+	{ key: "fireRate", label: "Fire rate", format: (v) => `${v}/s` },
+	{ key: "groundRange", label: "Ground range", format: (v) => `${v} m` },
+	{ key: "spaceRange", label: "Space range", format: (v) => `${v} m` },
+	{ key: "durability", label: "HP", format: (v) => `${v}` },
+	{ key: "stackSize", label: "Stack", format: (v) => `${v}` },
+];
+
+export function BuildingReference() {
+	return (
+		<div className="p-6 space-y-6">
+			{CATEGORIES.map((category) => (
+				<section key={category}>
+					<h2 className="text-sm font-medium text-gray-300 mb-2">{category}</h2>
+					<div className="grid grid-cols-1 lg:grid-cols-2 gap-2">
+						{BUILDINGS.filter((b) => b.category === category).map(
+							(building) => (
+								<BuildingCard key={building.name} building={building} />
+							),
+						)}
+					</div>
+				</section>
+			))}
+		</div>
+	);
+}
+
+function BuildingCard({ building }: { building: Building }) {
+	const { stats, itemId } = building;
+	const recipes = BuildingDetailsService.getRecipeTypesForCategory(
+		building.category,
+	).flatMap((type) => DSPData.filterRecipes({ type }));
+
+	return (
+		<div className="rounded-lg border border-gray-700 bg-gray-900 p-3 space-y-2">
+			<div className="flex items-center gap-3">
+				<GameIcon name={building.name} size={40} />
+				<div className="flex-1 min-w-0">
+					{itemId !== undefined ? (
+						<Link
+							to="/items/$itemId"
+							params={{ itemId: String(itemId) }}
+							className="font-medium text-gray-100 hover:text-blue-400"
+						>
+							{building.name}
+						</Link>
+					) : (
+						<div className="font-medium text-gray-100">{building.name}</div>
+					)}
+					<div className="text-xs text-gray-500 line-clamp-2">
+						{building.description}
+					</div>
+				</div>
+				<a
+					href={building.wikiUrl}
+					target="_blank"
+					rel="noreferrer"
+					className="text-xs text-gray-500 hover:text-gray-300"
+				>
+					Wiki
+				</a>
+			</div>
+
+			<dl className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+				{stats.gridSize && (
+					<Stat
+						label="Grid"
+						value={`${stats.gridSize.width}×${stats.gridSize.depth}`}
+					/>
+				)}
+				{STAT_FORMATS.map(({ key, label, format }) => {
+					const value = stats[key];
+					return typeof value === "number" ? (
+						<Stat key={key} label={label} value={format(value)} />
+					) : null;
+				})}
+			</dl>
+
+			{recipes.length > 0 && (
+				<div className="flex flex-wrap items-center gap-1">
+					<span className="text-xs text-gray-500 mr-1">
+						{recipes.length} recipes
+					</span>
+					{recipes.map((recipe) => (
+						<Link
+							key={recipe.ID}
+							to="/items/$itemId"
+							params={{ itemId: String(recipe.Results[0]) }}
+							title={recipe.Name}
+						>
+							<GameIcon name={recipe.Name} size={18} />
+						</Link>
+					))}
+				</div>
+			)}
+
+			{itemId !== undefined && <PlanUsage itemId={itemId} />}
+		</div>
+	);
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+	return (
+		<div className="flex gap-1">
+			<dt className="text-gray-500">{label}</dt>
+			<dd className="text-gray-200">{value}</dd>
+		</div>
+	);
+}
+
+/** Elements of the current plan that run on the building */
+function PlanUsage({ itemId }: { itemId: number }) {
+	const { elements } = useCalculator();
+	const summary = useFacilitySummary().find((s) => s.itemId === itemId);
+	if (!summary) return null;
+
+	const users = Object.values(elements).filter(
+		(element) => element.facility?.itemId === itemId,
+	);
+
+	return (
+		<div className="flex flex-wrap items-center gap-2 rounded border border-emerald-700/50 bg-emerald-900/20 p-1.5 text-xs text-gray-300">
+			<span className="text-emerald-400">
+				In plan: x
+				<FacilityCount count={summary.count} builtCount={summary.builtCount} />
+			</span>
+			{users.map((element) => {
+				const item = DSPData.getItemById(element.itemId);
+				return (
+					<span
+						key={element.id}
+						title={item?.Name}
+						className="flex items-center gap-0.5"
+					>
+						{item && <GameIcon name={item.Name} size={16} />}
+						{element.facility?.count.toFixed(1)}
+					</span>
+				);
+			})}
+			{summary.power > 0 && (
+				<span className="ml-auto text-gray-500">
+					{formatPower(summary.power)}
+				</span>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,166 @@
+import { Link } from "@tanstack/react-router";
+import { GameIcon } from "@/components/ui/GameIcon";
+import { useCalculator } from "@/hooks/use-calculator";
+import { DSPData } from "@/lib/data/dsp-data";
+import type { Recipe } from "@/lib/data/models";
+import type { RecipeItemRate } from "@/lib/stores/calculator-store";
+import { formatEnergy } from "@/lib/utils";
+
+export function ItemDetails({ itemId }: { itemId: number }) {
+	const { addTarget, getPerFacilityRate } = useCalculator();
+	const item = DSPData.getItemById(itemId);
+	if (!item) {
+		return <div className="p-6 text-gray-400">Unknown item #{itemId}</div>;
+	}
+
+	const producers = DSPData.getRecipesProducing(itemId);
+	const consumers = DSPData.getRecipesConsuming(itemId);
+	const miningTime = DSPData.getMiningTime(itemId);
+	const extractionSpeed = DSPData.getExtractionSpeed(itemId);
+	const perFacilityRate = getPerFacilityRate(itemId);
+
+	return (
+		<div className="max-w-4xl p-6 space-y-6">
+			<div className="flex items-start gap-4">
+				<GameIcon name={item.Name} size={64} />
+				<div className="flex-1 min-w-0">
+					<h1 className="text-2xl font-semibold text-gray-100">{item.Name}</h1>
+					<div className="text-sm text-gray-500">
+						{item.Type} · #{item.ID}
+					</div>
+					<p className="mt-2 text-sm text-gray-300">{item.Description}</p>
+				</div>
+				<button
+					type="button"
+					onClick={() => addTarget(itemId, perFacilityRate)}
+					disabled={perFacilityRate <= 0}
+					title="Add at the output of one building"
+					className="px-4 py-2 bg-blue-600 text-white rounded disabled:bg-gray-700 disabled:text-gray-500"
+				>
+					Add as target
+				</button>
+			</div>
+
+			<dl className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+				<Stat label="Stack size" value={item.StackSize.toLocaleString()} />
+				{item.HeatValue > 0 && (
+					<Stat label="Fuel value" value={formatEnergy(item.HeatValue)} />
+				)}
+				{miningTime !== undefined && (
+					<Stat label="Mined" value={item.MiningFrom || "Ore veins"} />
+				)}
+				{extractionSpeed !== undefined && (
+					<Stat label="Extracted" value={item.MiningFrom || "Pumped"} />
+				)}
+				{item.IsFluid && <Stat label="Fluid" value="Piped" />}
+			</dl>
+
+			<RecipeSection
+				title="Produced by"
+				recipes={producers}
+				emptyText="No recipe makes this item."
+			/>
+			<RecipeSection
+				title="Used in"
+				recipes={consumers}
+				emptyText="No recipe takes this item."
+			/>
+		</div>
+	);
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+	return (
+		<div className="rounded-lg border border-gray-700 bg-gray-900 p-2">
+			<dt className="text-xs text-gray-500">{label}</dt>
+			<dd className="text-gray-100">{value}</dd>
+		</div>
+	);
+}
+
+function RecipeSection({
+	title,
+	recipes,
+	emptyText,
+}: {
+	title: string;
+	recipes: Recipe[];
+	emptyText: string;
+}) {
+	return (
+		<section>
+			<h2 className="text-sm font-medium text-gray-300 mb-2">
+				{title} ({recipes.length})
+			</h2>
+			{recipes.length === 0 ? (
+				<div className="text-sm text-gray-500">{emptyText}</div>
+			) : (
+				<div className="space-y-2">
+					{recipes.map((recipe) => (
+						<RecipeRow key={recipe.ID} recipe={recipe} />
+					))}
+				</div>
+			)}
+		</section>
+	);
+}
+
+function RecipeRow({ recipe }: { recipe: Recipe }) {
+	const { addRecipeTarget, getRecipeRates, isRecipeUnlocked } = useCalculator();
+	const rates = getRecipeRates(recipe.ID);
+	const facility = rates && DSPData.getItemById(rates.facilityItemId);
+	const unlocked = isRecipeUnlocked(recipe.ID);
+
+	return (
+		<div className="flex items-center gap-3 rounded-lg border border-gray-700 bg-gray-900 p-3">
+			<GameIcon name={recipe.Name} size={32} />
+			<div className="flex-1 min-w-0">
+				<div className="flex items-center gap-2 text-sm font-medium text-gray-100">
+					{recipe.Name}
+					{!unlocked && <span className="text-xs text-amber-400">locked</span>}
+				</div>
+				<div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-gray-400">
+					<ItemRates rates={rates?.inputs ?? []} />
+					<span>→</span>
+					<ItemRates rates={rates?.outputs ?? []} />
+				</div>
+			</div>
+			{facility && (
+				<div
+					className="flex items-center gap-1 text-xs text-gray-500"
+					title={`Rates for one ${facility.Name}`}
+				>
+					<GameIcon name={facility.Name} size={20} />
+					{recipe.TimeSpend / 60}s
+				</div>
+			)}
+			<button
+				type="button"
+				onClick={() => addRecipeTarget(recipe.ID)}
+				title={`Add ${recipe.Name} as a target`}
+				className="px-2 py-1 text-xs rounded bg-gray-800 text-gray-300 hover:bg-blue-600 hover:text-white"
+			>
+				+ Target
+			</button>
+		</div>
+	);
+}
+
+/** Per-second item rates, each linking to its item page */
+export function ItemRates({ rates }: { rates: RecipeItemRate[] }) {
+	return rates.map(({ itemId, rate }) => {
+		const item = DSPData.getItemById(itemId);
+		return (
+			<Link
+				key={itemId}
+				to="/items/$itemId"
+				params={{ itemId: String(itemId) }}
+				title={item?.Name}
+				className="flex items-center gap-0.5 hover:text-blue-400"
+			>
+				{item && <GameIcon name={item.Name} size={16} />}
+				{rate.toFixed(2)}/s
+			</Link>
+		);
+	});
+}
@@ -0,0 +1,337 @@
+import { Link } from "@tanstack/react-router";
+import { useMemo, useState } from "react";
+import { ItemRates } from "@/components/reference/ItemDetails";
+import { GameIcon } from "@/components/ui/GameIcon";
+import { useCalculator } from "@/hooks/use-calculator";
+import { BuildingDetailsService } from "@/lib/data/building-details-service";
+import { DSPData, type RecipeFilter } from "@/lib/data/dsp-data";
+import type { Recipe } from "@/lib/data/models";
+import { cn } from "@/lib/utils";
+
+const RECIPE_TYPES = [...new Set(DSPData.recipes.map((r) => r.Type))];
+
+const SORTED_ITEMS = [...DSPData.items].sort((a, b) =>
+	a.Name.localeCompare(b.Name),
+);
+
+const FLAG_FILTERS: { key: "fluid" | "buildable" | "entity"; label: string }[] =
+	[
+		{ key: "fluid", label: "Fluids" },
+		{ key: "buildable", label: "Buildables" },
+		{ key: "entity", label: "Entities" },
+	];
+
+const TRI_STATE_FILTERS: {
+	key: "handcraft" | "productive";
+	label: string;
+}[] = [
+	{ key: "handcraft", label: "Handcraft" },
+	{ key: "productive", label: "Productive" },
+];
+
+export function RecipeBrowser() {
+	const [filter, setFilter] = useState<RecipeFilter>({});
+	const [search, setSearch] = useState("");
+	const [compareIds, setCompareIds] = useState<number[]>([]);
+
+	const recipes = useMemo(() => {
+		const query = search.trim().toLowerCase();
+		return DSPData.filterRecipes(filter).filter((recipe) =>
+			recipe.Name.toLowerCase().includes(query),
+		);
+	}, [filter, search]);
+
+	const toggleCompare = (recipeId: number) =>
+		setCompareIds((ids) =>
+			ids.includes(recipeId)
+				? ids.filter((id) => id !== recipeId)
+				: [...ids, recipeId],
+		);
+
+	return (
+		<div className="p-6 space-y-4">
+			<div className="flex flex-wrap items-center gap-2 text-sm">
+				<input
+					type="search"
+					value={search}
+					onChange={(e) => setSearch(e.target.value)}
+					placeholder="Search recipes..."
+					className="bg-gray-800 border border-gray-700 rounded px-3 py-1 text-gray-100"
+				/>
+				<select
+					value={filter.type ?? ""}
+					onChange={(e) =>
+						setFilter({ ...filter, type: e.target.value || undefined })
+					}
+					className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-100"
+				>
+					<option value="">All types</option>
+					{RECIPE_TYPES.map((type) => (
+						<option key={type} value={type}>
+							{type}
+						</option>
+					))}
+				</select>
+				<ItemSelect
+					label="Any input"
+					value={filter.inputItemId}
+					onChange={(inputItemId) => setFilter({ ...filter, inputItemId })}
+				/>
+				<ItemSelect
+					label="Any output"
+					value={filter.outputItemId}
+					onChange={(outputItemId) => setFilter({ ...filter, outputItemId })}
+				/>
+				{TRI_STATE_FILTERS.map(({ key, label }) => (
+					<select
+						key={key}
+						value={filter[key] === undefined ? "" : String(filter[key])}
+						onChange={(e) =>
+							setFilter({
+								...filter,
+								[key]: e.target.value ? e.target.value === "true" : undefined,
+							})
+						}
+						className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-100"
+					>
+						<option value="">{label}: any</option>
+						<option value="true">{label}: yes</option>
+						<option value="false">{label}: no</option>
+					</select>
+				))}
+				{FLAG_FILTERS.map(({ key, label }) => (
+					<button
+						key={key}
+						type="button"
+						onClick={() => setFilter({ ...filter, [key]: !filter[key] })}
+						className={`px-3 py-1 text-xs rounded ${
+							filter[key]
+								? "bg-emerald-600 text-white"
+								: "bg-gray-800 text-gray-400 hover:text-gray-200"
+						}`}
+					>
+						{label}
+					</button>
+				))}
+				<span className="ml-auto text-xs text-gray-500">
+					{recipes.length} recipes
+				</span>
+			</div>
+
+			{compareIds.length > 0 && (
+				<RecipeComparison
+					recipeIds={compareIds}
+					onRemove={toggleCompare}
+					onClear={() => setCompareIds([])}
+				/>
+			)}
+
+			<div className="space-y-2">
+				{recipes.map((recipe) => (
+					<RecipeListRow
+						key={recipe.ID}
+						recipe={recipe}
+						compared={compareIds.includes(recipe.ID)}
+						onToggleCompare={() => toggleCompare(recipe.ID)}
+					/>
+				))}
+			</div>
+		</div>
+	);
+}
+
+function ItemSelect({
+	label,
+	value,
+	onChange,
+}: {
+	label: string;
+	value: number | undefined;
+	onChange: (itemId: number | undefined) => void;
+}) {
+	return (
+		<select
+			value={value ?? ""}
+			onChange={(e) => onChange(Number(e.target.value) || undefined)}
+			className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-100 max-w-48"
+		>
+			<option value="">{label}</option>
+			{SORTED_ITEMS.map((item) => (
+				<option key={item.ID} value={item.ID}>
+					{item.Name}
+				</option>
+			))}
+		</select>
+	);
+}
+
+function RecipeListRow({
+	recipe,
+	compared,
+	onToggleCompare,
+}: {
+	recipe: Recipe;
+	compared: boolean;
+	onToggleCompare: () => void;
+}) {
+	return (
+		<div
+			className={cn(
+				"flex items-center gap-3 rounded-lg border bg-gray-900 p-3",
+				compared ? "border-blue-500" : "border-gray-700",
+			)}
+		>
+			<input
+				type="checkbox"
+				checked={compared}
+				onChange={onToggleCompare}
+				title="Compare"
+			/>
+			<GameIcon name={recipe.Name} size={32} />
+			<div className="w-56 min-w-0">
+				<div className="text-sm font-medium text-gray-100 truncate">
+					{recipe.Name}
+				</div>
+				<div className="text-xs text-gray-500">
+					{recipe.Type} · {recipe.TimeSpend / 60}s
+				</div>
+			</div>
+			<RecipeItems recipe={recipe} />
+			<TierRates recipe={recipe} />
+		</div>
+	);
+}
+
+/** Inputs and outputs per craft, each linking to its item page */
+function RecipeItems({ recipe }: { recipe: Recipe }) {
+	const renderItems = (itemIds: number[], counts: number[]) =>
+		itemIds.map((itemId, index) => {
+			const item = DSPData.getItemById(itemId);
+			return (
+				<Link
+					key={itemId}
+					to="/items/$itemId"
+					params={{ itemId: String(itemId) }}
+					title={item?.Name}
+					className="flex items-center gap-0.5 hover:text-blue-400"
+				>
+					{item && <GameIcon name={item.Name} size={20} />}
+					{counts[index]}
+				</Link>
+			);
+		});
+
+	return (
+		<div className="flex-1 flex flex-wrap items-center gap-2 text-xs text-gray-400">
+			{renderItems(recipe.Items, recipe.ItemCounts)}
+			<span>→</span>
+			{renderItems(recipe.Results, recipe.ResultCounts)}
+		</div>
+	);
+}
+
+/** Main product per second for one building of each tier */
+function TierRates({ recipe }: { recipe: Recipe }) {
+	const { getRecipeRates } = useCalculator();
+	const facilities = BuildingDetailsService.getFacilitiesForRecipeType(
+		recipe.Type,
+	);
+
+	return (
+		<div className="flex gap-3 text-xs text-gray-300">
+			{facilities.map((facility) => {
+				const rate = getRecipeRates(recipe.ID, undefined, facility.itemId)
+					?.outputs[0]?.rate;
+				return (
+					<div
+						key={facility.itemId}
+						title={facility.name}
+						className="flex items-center gap-1"
+					>
+						<GameIcon name={facility.name} size={20} />
+						{rate?.toFixed(2)}/s
+					</div>
+				);
+			})}
+		</div>
+	);
+}
+
+function RecipeComparison({
+	recipeIds,
+	onRemove,
+	onClear,
+}: {
+	recipeIds: number[];
+	onRemove: (recipeId: number) => void;
+	onClear: () => void;
+}) {
+	const { getRecipeRates } = useCalculator();
+	const recipes = recipeIds
+		.map((id) => DSPData.getRecipeById(id))
+		.filter((recipe): recipe is Recipe => recipe !== undefined);
+
+	return (
+		<div className="rounded-lg border border-blue-500/50 bg-gray-900 p-3">
+			<div className="flex items-center justify-between mb-2">
+				<h2 className="text-sm font-medium text-gray-300">Comparison</h2>
+				<button
+					type="button"
+					onClick={onClear}
+					className="text-xs text-gray-400 hover:text-gray-200"
+				>
+					Clear
+				</button>
+			</div>
+			<div className="flex gap-3 overflow-x-auto">
+				{recipes.map((recipe) => (
+					<div
+						key={recipe.ID}
+						className="min-w-56 rounded border border-gray-700 p-2 text-xs text-gray-400 space-y-1"
+					>
+						<div className="flex items-center gap-2">
+							<GameIcon name={recipe.Name} size={24} />
+							<span className="flex-1 text-sm text-gray-100">
+								{recipe.Name}
+							</span>
+							<button
+								type="button"
+								onClick={() => onRemove(recipe.ID)}
+								className="text-gray-400 hover:text-red-400"
+							>
+								✕
+							</button>
+						</div>
+						<div>
+							{recipe.Type} · {recipe.TimeSpend / 60}s
+							{recipe.Handcraft && " · handcraft"}
+							{DSPData.canRecipeUseProductMode(recipe.ID) && " · productive"}
+						</div>
+						<RecipeItems recipe={recipe} />
+						{BuildingDetailsService.getFacilitiesForRecipeType(recipe.Type).map(
+							(facility) => {
+								const rates = getRecipeRates(
+									recipe.ID,
+									undefined,
+									facility.itemId,
+								);
+								return (
+									<div
+										key={facility.itemId}
+										className="flex flex-wrap items-center gap-1 border-t border-gray-800 pt-1"
+									>
+										<GameIcon name={facility.name} size={16} />
+										<span className="text-gray-500">{facility.name}</span>
+										<ItemRates rates={rates?.inputs ?? []} />
+										<span>→</span>
+										<ItemRates rates={rates?.outputs ?? []} />
+									</div>
+								);
+							},
+						)}
+					</div>
+				))}
+			</div>
+		</div>
+	);
+}
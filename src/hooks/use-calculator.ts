@@ -1,26 +1,71 @@
 import { useStore } from "@tanstack/react-store";
 import {
 	calculateFacilitySummary,
+	calculateGatheringSummary,
 	calculateRateBreakdown,
 	calculateResourceNeeds,
 } from "@/lib/calculator/utils";
+import { BuildingDetailsService } from "@/lib/data/building-details-service";
 import {
+	addLogisticsFleetTargets,
+	addLogisticsRoute,
+	addRecipeTarget,
+	addResearchTarget,
+	addResearchTargets,
 	addTarget,
+	applyProliferatorPolicy,
 	calculatorStore,
 	clearElementSource,
 	clearTotalsNodePositions,
+	getAvailableRecipes,
+	getCarrierStats,
+	getGatherer,
+	getLogisticsFleet,
+	getLogisticsShipments,
 	getPerFacilityRate,
+	getPlanPower,
+	getPowerGeneration,
+	getProliferatorDemand,
+	getRecipeRates,
+	getResearchCost,
+	getResearchLabs,
+	isBuildingUnlocked,
+	isRecipeUnlocked,
+	optimizeTargetRecipes,
+	removeLogisticsRoute,
+	removeResearchTarget,
 	removeTarget,
 	selectElement,
 	setDefaultFacility,
+	setDefaultMining,
 	setDefaultProliferator,
+	setDefaultRayReceiver,
+	setDysonSpherePower,
+	setElementExtractionTheme,
 	setElementRecipe,
+	setElementRounding,
+	setElementSeepYield,
 	setElementToExtractionSource,
+	setElementToGatheringSource,
 	setElementToMiningSource,
+	setLabStackHeight,
+	setLogisticsConfig,
+	setMiningSpeed,
+	setPlanMode,
+	setPowerGeneration,
+	setProduceProliferators,
+	setResearchEnabled,
+	setResearchSpeed,
+	setRounding,
+	setTechCompleted,
 	setViewState,
 	updateElementFacilityType,
+	updateElementMiner,
 	updateElementProliferator,
+	updateElementRayReceiver,
+	updateLogisticsRoute,
 	updateNodePosition,
+	updateResearchTargetRate,
 	updateRootFacility,
 	updateTargetRate,
 	updateTotalsNodePosition,
@@ -35,27 +80,71 @@ export function useCalculator() {
 		selectedElementId: state.selectedElementId,
 		viewState: state.viewState,
 		globalDefaults: state.globalDefaults,
+		planMode: state.planMode,
+		solverStatus: state.solverStatus,
+		powerGeneration: state.powerGeneration,
+		rounding: state.rounding,
+		produceProliferators: state.produceProliferators ?? false,
+		research: state.research,
+		researchTargets: state.researchTargets ?? [],
+		logisticsRoutes: state.logisticsRoutes ?? [],
 		nodePositions: state.nodePositions,
 		totalsNodePositions: state.totalsNodePositions,
 
+		addLogisticsFleetTargets,
+		addLogisticsRoute,
+		addRecipeTarget,
+		addResearchTarget,
+		addResearchTargets,
 		addTarget,
+		applyProliferatorPolicy,
 		clearElementSource,
 		clearTotalsNodePositions,
+		getAvailableRecipes,
+		getGatherer,
 		getPerFacilityRate,
+		getRecipeRates,
+		getResearchCost,
+		isBuildingUnlocked,
+		isRecipeUnlocked,
+		optimizeTargetRecipes,
+		removeLogisticsRoute,
+		removeResearchTarget,
 		removeTarget,
 		setElementRecipe,
 		setElementToMining: setElementToMiningSource,
 		setElementToExtraction: setElementToExtractionSource,
+		setElementToGathering: setElementToGatheringSource,
 		setDefaultFacility,
 		setDefaultProliferator,
+		setDefaultMining,
+		setDefaultRayReceiver,
+		setDysonSpherePower,
+		setMiningSpeed,
+		setPlanMode,
+		setPowerGeneration,
+		setProduceProliferators,
+		setLabStackHeight,
+		setLogisticsConfig,
+		setResearchEnabled,
+		setResearchSpeed,
+		setRounding,
+		setTechCompleted,
+		setElementRounding,
 		updateNodePosition,
 		updateTotalsNodePosition,
 		setViewState,
 		selectElement,
 		updateTargetRate,
+		updateResearchTargetRate,
+		updateLogisticsRoute,
 		updateRootFacility,
 		updateElementFacilityType,
 		updateElementProliferator,
+		updateElementMiner,
+		setElementExtractionTheme,
+		setElementSeepYield,
+		updateElementRayReceiver,
 	};
 }
 
@@ -66,10 +155,47 @@ export function useResourceNeeds() {
 
 export function useFacilitySummary() {
 	const state = useStore(calculatorStore, (s) => s);
-	return calculateFacilitySummary(state.targets, state.elements);
+	return calculateFacilitySummary(
+		state.targets,
+		state.elements,
+		BuildingDetailsService.getWorkPower,
+		state.rounding.mode,
+	);
+}
+
+export function useGatheringSummary() {
+	const state = useStore(calculatorStore, (s) => s);
+	return calculateGatheringSummary(state.targets, state.elements);
+}
+
+export function useResearchLabs() {
+	const state = useStore(calculatorStore, (s) => s);
+	return getResearchLabs(state);
+}
+
+export function useLogistics() {
+	const state = useStore(calculatorStore, (s) => s);
+	return {
+		carrierStats: getCarrierStats(state),
+		shipments: getLogisticsShipments(state),
+		fleet: getLogisticsFleet(state),
+	};
+}
+
+export function useProliferatorDemand() {
+	const state = useStore(calculatorStore, (s) => s);
+	return getProliferatorDemand(state);
 }
 
 export function useRateBreakdown() {
 	const state = useStore(calculatorStore, (s) => s);
 	return calculateRateBreakdown(state.targets, state.elements);
 }
+
+export function usePowerGeneration() {
+	const state = useStore(calculatorStore, (s) => s);
+	return {
+		requiredPower: getPlanPower(state),
+		generation: getPowerGeneration(state),
+	};
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import {
+	calculateOilExtraction,
+	calculateOrbitalCollection,
+} from "./extraction";
+
+describe("calculateOrbitalCollection", () => {
+	it("should burn part of the gathered gas to power the collector", () => {
+		// Gas giant: 7.68 hydrogen + 0.32 deuterium per second, 72 MW of heat
+		const result = calculateOrbitalCollection([
+			{ itemId: 1120, speed: 0.96, heatValue: 9_000_000 },
+			{ itemId: 1121, speed: 0.04, heatValue: 9_000_000 },
+		]);
+
+		expect(result.fuelShare).toBeCloseTo(30 / 72, 6);
+		expect(result.rates.get(1120)).toBeCloseTo(4.48, 6);
+		expect(result.rates.get(1121)).toBeCloseTo(0.32 * (42 / 72), 6);
+	});
+
+	it("should burn a smaller share once mining research speeds it up", () => {
+		const result = calculateOrbitalCollection(
+			[{ itemId: 1120, speed: 1, heatValue: 9_000_000 }],
+			2,
+		);
+
+		// 16 hydrogen/s carry 144 MW, of which 30 MW are burned
+		expect(result.fuelShare).toBeCloseTo(30 / 144, 6);
+		expect(result.rates.get(1120)).toBeCloseTo(16 * (114 / 144), 6);
+	});
+});
+
+describe("calculateOilExtraction", () => {
+	it("should scale the seep yield with mining research", () => {
+		expect(calculateOilExtraction(1.5, 2)).toBeCloseTo(3, 6);
+	});
+
+	it("should never drop below the depleted seep floor", () => {
+		expect(calculateOilExtraction(0.02)).toBeCloseTo(0.1, 6);
+	});
+});
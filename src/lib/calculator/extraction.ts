@@ -0,0 +1,65 @@
+export const ORBITAL_COLLECTOR_ITEM_ID = 2105;
+
+// Collectors gather this many times the theme's gas speeds per second
+export const ORBITAL_COLLECTOR_SPEED = 8;
+
+// Power each collector draws from burning part of what it gathers, in watts
+export const ORBITAL_COLLECTOR_POWER = 30_000_000;
+
+export interface GasData {
+	itemId: number;
+	speed: number; // theme gas speed
+	heatValue: number; // joules per item
+}
+
+export interface OrbitalCollection {
+	// Net items/sec per collector after fuel, keyed by item
+	rates: Map<number, number>;
+	// Share of the gathered gas burned to power the collector
+	fuelShare: number;
+}
+
+/**
+ * Net output of one orbital collector on a gas or ice giant. The collector
+ * burns each gas in proportion to what it gathers until it covers its own
+ * power draw.
+ */
+export function calculateOrbitalCollection(
+	gases: GasData[],
+	miningSpeed = 1,
+): OrbitalCollection {
+	const gathered = gases.map((gas) => ({
+		...gas,
+		rate: gas.speed * ORBITAL_COLLECTOR_SPEED * miningSpeed,
+	}));
+	const heatRate = gathered.reduce(
+		(sum, gas) => sum + gas.rate * gas.heatValue,
+		0,
+	);
+	const fuelShare =
+		heatRate > 0 ? Math.min(1, ORBITAL_COLLECTOR_POWER / heatRate) : 0;
+
+	return {
+		rates: new Map(
+			gathered.map((gas) => [gas.itemId, gas.rate * (1 - fuelShare)]),
+		),
+		fuelShare,
+	};
+}
+
+export const WATER_PUMP_ITEM_ID = 2306;
+export const OIL_EXTRACTOR_ITEM_ID = 2307;
+
+// Crude oil per second of a typical seep; seeps vary, so it can be set per element
+export const DEFAULT_OIL_SEEP_YIELD = 1;
+
+// Oil Extractors never drop below 6/min, however depleted the seep
+export const MIN_OIL_SEEP_YIELD = 0.1;
+
+/** Output of one Oil Extractor on a seep, in items per second */
+export function calculateOilExtraction(
+	seepYield: number,
+	miningSpeed = 1,
+): number {
+	return Math.max(MIN_OIL_SEEP_YIELD, seepYield) * miningSpeed;
+}
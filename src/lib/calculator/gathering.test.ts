@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { calculatePhotonGathering } from "./gathering";
+
+const PHOTON_ENERGY = 1_200_000_000;
+
+describe("calculatePhotonGathering", () => {
+	it("should double the photons and use up lenses with a graviton lens", () => {
+		const plain = calculatePhotonGathering(
+			{ lens: false, continuity: 1 },
+			PHOTON_ENERGY,
+		);
+		const lensed = calculatePhotonGathering(
+			{ lens: true, continuity: 1 },
+			PHOTON_ENERGY,
+		);
+
+		expect(plain.rate).toBeCloseTo(0.1, 6);
+		expect(plain.spherePower).toBe(120_000_000);
+		expect(plain.lensRate).toBe(0);
+		expect(lensed.rate).toBeCloseTo(0.2, 6);
+		expect(lensed.spherePower).toBe(240_000_000);
+		expect(lensed.lensRate).toBeCloseTo(1 / 600, 6);
+	});
+
+	it("should only gather while the receiver sees the star", () => {
+		const result = calculatePhotonGathering(
+			{ lens: true, continuity: 0.5 },
+			PHOTON_ENERGY,
+		);
+
+		expect(result.rate).toBeCloseTo(0.1, 6);
+		expect(result.spherePower).toBe(120_000_000);
+		expect(result.lensRate).toBeCloseTo(0.5 / 600, 6);
+	});
+});
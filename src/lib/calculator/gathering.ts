@@ -0,0 +1,45 @@
+import type { RayReceiverConfig } from "./models";
+
+export const RAY_RECEIVER_ITEM_ID = 2208;
+export const CRITICAL_PHOTON_ITEM_ID = 1208;
+export const GRAVITON_LENS_ITEM_ID = 1209;
+
+// Dyson sphere power a Ray Receiver takes in while making photons, in watts
+export const RAY_RECEIVER_PHOTON_POWER = 120_000_000;
+
+// A graviton lens doubles what the receiver can take in
+export const GRAVITON_LENS_POWER_MULTIPLIER = 2;
+
+// Seconds of receiving each graviton lens lasts
+export const GRAVITON_LENS_DURATION = 600;
+
+export interface PhotonGathering {
+	// Critical photons/sec per receiver
+	rate: number;
+	// Average Dyson sphere power each receiver draws, in watts
+	spherePower: number;
+	// Graviton lenses each receiver uses up per second
+	lensRate: number;
+}
+
+/**
+ * Output of one Ray Receiver in photon mode. Each photon stores
+ * `photonEnergy` joules of the sphere's power, and the receiver only
+ * receives for the `continuity` share of the day.
+ */
+export function calculatePhotonGathering(
+	config: RayReceiverConfig,
+	photonEnergy: number,
+): PhotonGathering {
+	const continuity = Math.min(1, Math.max(0, config.continuity));
+	const spherePower =
+		RAY_RECEIVER_PHOTON_POWER *
+		(config.lens ? GRAVITON_LENS_POWER_MULTIPLIER : 1) *
+		continuity;
+
+	return {
+		rate: photonEnergy > 0 ? spherePower / photonEnergy : 0,
+		spherePower,
+		lensRate: config.lens ? continuity / GRAVITON_LENS_DURATION : 0,
+	};
+}
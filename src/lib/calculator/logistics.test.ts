@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import {
+	type CarrierStats,
+	calculateCarrierStats,
+	calculateShipment,
+	LIGHT_YEAR,
+	LOGISTICS_DRONE_ITEM_ID,
+	LOGISTICS_VESSEL_ITEM_ID,
+	sumTechUnlocks,
+	type TechUnlockData,
+} from "./logistics";
+
+// The first levels of Logistics Carrier Engine, the last one repeatable
+const engineTechs: TechUnlockData[] = [
+	{
+		Level: 1,
+		MaxLevel: 1,
+		UnlockFunctions: [15, 34],
+		UnlockValues: [0.2, 0.1],
+	},
+	{
+		Level: 2,
+		MaxLevel: 2,
+		UnlockFunctions: [15, 34, 16, 17],
+		UnlockValues: [0.3, 0.15, 0.5, 1],
+	},
+	{
+		Level: 3,
+		MaxLevel: 10000,
+		UnlockFunctions: [15, 34, 16],
+		UnlockValues: [0.5, 0.2, 0.5],
+	},
+];
+
+const capacityTechs: TechUnlockData[] = [
+	{
+		Level: 1,
+		MaxLevel: 2,
+		UnlockFunctions: [18, 19],
+		UnlockValues: [5, 100],
+	},
+];
+
+const stats: CarrierStats = {
+	droneSpeed: 10,
+	droneCapacity: 50,
+	vesselSpeed: 500,
+	vesselWarpSpeed: 500_000,
+	vesselCapacity: 1000,
+	warpDrive: true,
+};
+
+describe("sumTechUnlocks", () => {
+	it("should add each level's value up to the given level", () => {
+		expect(sumTechUnlocks(engineTechs, 0, 15)).toBe(0);
+		expect(sumTechUnlocks(engineTechs, 2, 15)).toBeCloseTo(0.5);
+		// Repeatable levels 3 to 5 add 0.5 each
+		expect(sumTechUnlocks(engineTechs, 5, 15)).toBeCloseTo(2);
+		expect(sumTechUnlocks(capacityTechs, 10, 19)).toBe(200);
+	});
+});
+
+describe("calculateCarrierStats", () => {
+	it("should start from the base stats without research", () => {
+		const base = calculateCarrierStats(engineTechs, 0, capacityTechs, 0);
+
+		expect(base.droneSpeed).toBe(8);
+		expect(base.droneCapacity).toBe(25);
+		expect(base.vesselCapacity).toBe(200);
+		expect(base.warpDrive).toBe(false);
+	});
+
+	it("should scale speeds and raise capacities with research", () => {
+		const upgraded = calculateCarrierStats(engineTechs, 3, capacityTechs, 2);
+
+		expect(upgraded.droneSpeed).toBeCloseTo(8 * 2);
+		expect(upgraded.vesselSpeed).toBeCloseTo(400 * 2);
+		expect(upgraded.droneCapacity).toBe(35);
+		expect(upgraded.vesselCapacity).toBe(400);
+		expect(upgraded.warpDrive).toBe(true);
+	});
+});
+
+describe("calculateShipment", () => {
+	it("should count drones for a planetary route", () => {
+		// 500 m each way at 10 m/s: 100 s per round trip of 50 items
+		const shipment = calculateShipment("planetary", 30, 500, stats);
+
+		expect(shipment.carrierItemId).toBe(LOGISTICS_DRONE_ITEM_ID);
+		expect(shipment.roundTripTime).toBe(100);
+		expect(shipment.carriers).toBe(60);
+		expect(shipment.stations).toBe(2);
+		expect(shipment.warperRate).toBe(0);
+	});
+
+	it("should count a station at each end of a route", () => {
+		const planetary = calculateShipment("planetary", 1, 500, stats);
+		const interstellar = calculateShipment(
+			"interstellar",
+			1,
+			LIGHT_YEAR,
+			stats,
+		);
+
+		expect(planetary.stations).toBe(1);
+		expect(planetary.receivingStations).toBe(1);
+		expect(interstellar.stations).toBe(1);
+		expect(interstellar.receivingStations).toBe(1);
+	});
+
+	it("should sail vessels below the warp distance", () => {
+		const shipment = calculateShipment(
+			"interstellar",
+			10,
+			100_000,
+			stats,
+			LIGHT_YEAR,
+		);
+
+		expect(shipment.carrierItemId).toBe(LOGISTICS_VESSEL_ITEM_ID);
+		expect(shipment.warping).toBe(false);
+		expect(shipment.carriers).toBeCloseTo((10 * 400) / 1000);
+		expect(shipment.stations).toBe(1);
+		expect(shipment.warperRate).toBe(0);
+	});
+
+	it("should warp vessels at the warp distance with a warper each way", () => {
+		const shipment = calculateShipment(
+			"interstellar",
+			10,
+			5 * LIGHT_YEAR,
+			stats,
+			LIGHT_YEAR,
+		);
+
+		expect(shipment.warping).toBe(true);
+		expect(shipment.roundTripTime).toBeCloseTo((2 * 5 * LIGHT_YEAR) / 500_000);
+		// One trip per 1000 items, two warpers per trip
+		expect(shipment.warperRate).toBeCloseTo(0.02);
+	});
+
+	it("should not warp before the warp drive is researched", () => {
+		const shipment = calculateShipment(
+			"interstellar",
+			10,
+			5 * LIGHT_YEAR,
+			{ ...stats, warpDrive: false },
+			LIGHT_YEAR,
+		);
+
+		expect(shipment.warping).toBe(false);
+		expect(shipment.warperRate).toBe(0);
+	});
+});
@@ -0,0 +1,158 @@
+import type { Tech } from "../data/models";
+import type { LogisticsStationKind } from "./models";
+
+export const PLANETARY_LOGISTICS_STATION_ITEM_ID = 2103;
+export const INTERSTELLAR_LOGISTICS_STATION_ITEM_ID = 2104;
+export const LOGISTICS_DRONE_ITEM_ID = 5001;
+export const LOGISTICS_VESSEL_ITEM_ID = 5002;
+export const SPACE_WARPER_ITEM_ID = 1210;
+
+// One light year is 60 AU of 40,000 m
+export const LIGHT_YEAR = 2_400_000;
+
+// Carrier stats before Logistics Carrier Engine and Capacity research
+export const DRONE_BASE_SPEED = 8;
+export const DRONE_BASE_CAPACITY = 25;
+export const VESSEL_BASE_SAIL_SPEED = 400;
+export const VESSEL_BASE_WARP_SPEED = 400_000;
+export const VESSEL_BASE_CAPACITY = 200;
+
+// Carriers one station can hold
+export const STATION_MAX_DRONES = 50;
+export const STATION_MAX_VESSELS = 10;
+
+// Stations the items arrive at; they send out no carriers of their own
+export const RECEIVING_STATIONS_PER_ROUTE = 1;
+
+// Tech unlock functions the logistics upgrades use
+export const DRONE_SPEED_UNLOCK = 15;
+export const VESSEL_SPEED_UNLOCK = 16;
+export const WARP_DRIVE_UNLOCK = 17;
+export const DRONE_CAPACITY_UNLOCK = 18;
+export const VESSEL_CAPACITY_UNLOCK = 19;
+
+export type TechUnlockData = Pick<
+	Tech,
+	"Level" | "MaxLevel" | "UnlockFunctions" | "UnlockValues"
+>;
+
+/**
+ * Sum of an unlock function's values over the first `level` levels of an
+ * upgrade series. Repeatable techs add their value once per level.
+ */
+export function sumTechUnlocks(
+	techs: TechUnlockData[],
+	level: number,
+	unlockFunction: number,
+): number {
+	let total = 0;
+	for (const tech of techs) {
+		const index = tech.UnlockFunctions.indexOf(unlockFunction);
+		if (index === -1) continue;
+		const levels =
+			Math.min(Math.max(tech.Level, tech.MaxLevel), level) - tech.Level + 1;
+		if (levels > 0) total += levels * (tech.UnlockValues[index] ?? 0);
+	}
+	return total;
+}
+
+export interface CarrierStats {
+	// Metres per second and items per trip
+	droneSpeed: number;
+	droneCapacity: number;
+	vesselSpeed: number;
+	vesselWarpSpeed: number;
+	vesselCapacity: number;
+	// Whether vessels can warp with space warpers
+	warpDrive: boolean;
+}
+
+/**
+ * Carrier speeds and capacities after `engineLevel` levels of Logistics
+ * Carrier Engine and `capacityLevel` levels of Logistics Carrier Capacity
+ */
+export function calculateCarrierStats(
+	engineTechs: TechUnlockData[],
+	engineLevel: number,
+	capacityTechs: TechUnlockData[],
+	capacityLevel: number,
+): CarrierStats {
+	const vesselScale =
+		1 + sumTechUnlocks(engineTechs, engineLevel, VESSEL_SPEED_UNLOCK);
+	return {
+		droneSpeed:
+			DRONE_BASE_SPEED *
+			(1 + sumTechUnlocks(engineTechs, engineLevel, DRONE_SPEED_UNLOCK)),
+		droneCapacity:
+			DRONE_BASE_CAPACITY +
+			sumTechUnlocks(capacityTechs, capacityLevel, DRONE_CAPACITY_UNLOCK),
+		vesselSpeed: VESSEL_BASE_SAIL_SPEED * vesselScale,
+		vesselWarpSpeed: VESSEL_BASE_WARP_SPEED * vesselScale,
+		vesselCapacity:
+			VESSEL_BASE_CAPACITY +
+			sumTechUnlocks(capacityTechs, capacityLevel, VESSEL_CAPACITY_UNLOCK),
+		warpDrive: sumTechUnlocks(engineTechs, engineLevel, WARP_DRIVE_UNLOCK) > 0,
+	};
+}
+
+function countStations(carriers: number, perStation: number): number {
+	return Math.max(1, Math.ceil(carriers / perStation - 1e-9));
+}
+
+export interface LogisticsShipment {
+	// Drones for planetary routes, vessels for interstellar ones
+	carrierItemId: number;
+	// Carriers on the route, unrounded
+	carriers: number;
+	// Whole stations on the supplying end to hold the carriers
+	stations: number;
+	// Stations on the receiving end
+	receivingStations: number;
+	// Seconds for one carrier to go and come back
+	roundTripTime: number;
+	warping: boolean;
+	// Space warpers used up per second
+	warperRate: number;
+}
+
+/**
+ * Carriers and stations that ship `rate` items per second over `distance`
+ * metres. Carriers travel full one way and empty back; take-off, landing and
+ * acceleration are left out. Interstellar vessels warp at `warpDistance` and
+ * beyond, using one space warper each way.
+ */
+export function calculateShipment(
+	station: LogisticsStationKind,
+	rate: number,
+	distance: number,
+	stats: CarrierStats,
+	warpDistance = Number.POSITIVE_INFINITY,
+): LogisticsShipment {
+	if (station === "planetary") {
+		const roundTripTime = (2 * distance) / stats.droneSpeed;
+		const carriers = (rate * roundTripTime) / stats.droneCapacity;
+		return {
+			carrierItemId: LOGISTICS_DRONE_ITEM_ID,
+			carriers,
+			stations: countStations(carriers, STATION_MAX_DRONES),
+			receivingStations: RECEIVING_STATIONS_PER_ROUTE,
+			roundTripTime,
+			warping: false,
+			warperRate: 0,
+		};
+	}
+
+	const warping = stats.warpDrive && distance >= warpDistance;
+	const speed = warping ? stats.vesselWarpSpeed : stats.vesselSpeed;
+	const roundTripTime = (2 * distance) / speed;
+	const carriers = (rate * roundTripTime) / stats.vesselCapacity;
+	return {
+		carrierItemId: LOGISTICS_VESSEL_ITEM_ID,
+		carriers,
+		stations: countStations(carriers, STATION_MAX_VESSELS),
+		receivingStations: RECEIVING_STATIONS_PER_ROUTE,
+		roundTripTime,
+		warping,
+		warperRate: warping ? (2 * rate) / stats.vesselCapacity : 0,
+	};
+}
@@ -7,11 +7,43 @@ export type SourceType = "recipe" | "mining" | "extraction" | "gathering";
 
 export type ProliferatorMode = "speed" | "product" | "none";
 
+// "exact" keeps fractional facility counts, "element" rounds every element up
+// to whole buildings, "item" rounds the total per item in the totals view
+export type RoundingMode = "exact" | "element" | "item";
+
+export interface RoundingConfig {
+	mode: RoundingMode;
+	// Run rounded-up buildings at full speed, so children supply the surplus
+	propagate: boolean;
+}
+
+// "tree" expands every target on its own, "shared" merges identical
+// intermediates across targets, "solver" solves the whole plan at once
+export type PlanMode = "tree" | "shared" | "solver";
+
+// Whether the solver balanced the plan; an infeasible plan keeps its last rates
+export type SolverStatus = "solved" | "infeasible";
+
 export interface ModifierConfig {
 	mode: ProliferatorMode;
 	level: number;
 }
 
+// "product" only sprays recipes that can make extra products, while
+// "productOrSpeed" runs the rest in speed mode instead
+export type ProliferatorPolicyMode = ProliferatorMode | "productOrSpeed";
+
+export interface ProliferatorPolicy {
+	mode: ProliferatorPolicyMode;
+	level: number;
+}
+
+// Elements a proliferator policy is applied to
+export type ProliferatorPolicyScope =
+	| { type: "plan" }
+	| { type: "target"; targetId: string }
+	| { type: "recipeType"; recipeType: RecipeType };
+
 export interface RecipeSource {
 	type: "recipe";
 	recipeId: number;
@@ -22,18 +54,47 @@ export interface MiningSource {
 	type: "mining";
 	veinId: number;
 	miningTime: number;
+	// Veins within each miner's range; absent on plans from before miners
+	veinsPerMiner?: number;
 }
 
 export interface ExtractionSource {
 	type: "extraction";
+	// Gas or ice giant theme; 0 when no planet type is chosen
 	themeId: number;
+	// Net items/sec per facility
 	extractionSpeed: number;
 	isGas: boolean;
+	// Share of the gathered gas orbital collectors burn as their own fuel
+	fuelShare?: number;
+	// Crude oil per second of the seep under each Oil Extractor
+	seepYield?: number;
+}
+
+// Building and source that extract an item
+export interface Extractor {
+	facilityItemId: number;
+	source: ExtractionSource;
+}
+
+// Building and source that gather an item, such as Ray Receivers
+export interface Gatherer {
+	facilityItemId: number;
+	source: GatheringSource;
 }
 
 export interface GatheringSource {
 	type: "gathering";
-	note: string;
+	// Net items/sec per facility
+	gatheringSpeed: number;
+	// Graviton lens fitted to every Ray Receiver
+	lens: boolean;
+	// Share of the time the receivers see the star
+	continuity: number;
+	// Average Dyson sphere power each facility draws, in watts
+	spherePower: number;
+	// Graviton lenses each facility uses up per second
+	lensRate: number;
 }
 
 export type ElementSource =
@@ -46,6 +107,8 @@ export interface Byproduct {
 	itemId: number;
 	rate: number;
 	consumedBy: string[];
+	// Rate delivered to each element in consumedBy
+	consumedRates?: Record<string, number>;
 }
 
 export interface FacilityConfig {
@@ -55,6 +118,11 @@ export interface FacilityConfig {
 	modifier: ModifierConfig;
 	// Explicitly track which proliferator item is being used
 	proliferatorItemId?: number;
+	// Belt feeding the facility; fractionators convert a share of its throughput
+	beltItemId?: number;
+	// Whole buildings placed after rounding; count is how many of them the
+	// demand keeps busy, unless rounding propagates and they all run
+	builtCount?: number;
 }
 
 export interface CalculationElement {
@@ -70,18 +138,99 @@ export interface CalculationElement {
 	parentIds: string[];
 	// Track proliferator consumption for this element
 	proliferatorConsumption?: ProliferatorConsumption;
+	// Part of requiredRate covered by byproducts of other elements
+	byproductSupply?: number;
+	// Ancestor producing the same item; the loop is fed from its output
+	// instead of being expanded again
+	loopOf?: string;
+	// Overrides the plan's rounding mode for this element
+	rounding?: RoundingMode;
 }
 
+// Targets the store keeps in sync with the plan: "fuel" feeds the chosen
+// power generators, "proliferator" makes what the sprayed recipes use up,
+// "research" makes the matrices the plan's labs research with, "logistics"
+// makes the space warpers the plan's vessels use up
+export type AutoTargetKind = "fuel" | "proliferator" | "research" | "logistics";
+
 export interface CalculationTarget {
 	id: string;
 	itemId: number;
 	targetRate: number;
 	rootElementId: string;
+	auto?: AutoTargetKind;
+}
+
+// Labs researching a tech at a steady number of hashes per second
+export interface ResearchTarget {
+	id: string;
+	techId: number;
+	hashRate: number;
+}
+
+export type LogisticsStationKind = "planetary" | "interstellar";
+
+// An item shipped by logistics stations, drones within a planet and vessels
+// between planets
+export interface LogisticsRoute {
+	id: string;
+	itemId: number;
+	station: LogisticsStationKind;
+	// One way, in metres
+	distance: number;
+	// Items per second; the plan's whole demand for the item when absent
+	rate?: number;
+}
+
+export interface LogisticsConfig {
+	// Levels of Logistics Carrier Engine and Logistics Carrier Capacity
+	engineLevel: number;
+	capacityLevel: number;
+	// Vessels warp on routes at least this long, in metres
+	warpDistance: number;
+}
+
+export interface PowerGenerationConfig {
+	generatorItemId: number;
+	// Burned by fuelled generators; null for wind, solar and the like
+	fuelItemId: number | null;
 }
 
 export interface GlobalDefaults {
 	facilities: Record<RecipeType, number | undefined>;
 	proliferator: ModifierConfig;
+	mining?: MiningConfig;
+	// Mining speed research multiplier, 1 without research
+	miningSpeed?: number;
+	// Research speed multiplier for labs, 1 without research
+	researchSpeed?: number;
+	// Labs per stack, raised by Vertical Construction research
+	labStackHeight?: number;
+	rayReceiver?: RayReceiverConfig;
+	// Dyson sphere power available to the plan's Ray Receivers in watts;
+	// unlimited when absent
+	dysonSpherePower?: number;
+	logistics?: LogisticsConfig;
+}
+
+export interface MiningConfig {
+	minerItemId: number;
+	veinsPerMiner: number;
+	// Advanced Mining Machine speed setting, 1 to 3; always 1 otherwise
+	speedSetting: number;
+}
+
+export interface RayReceiverConfig {
+	lens: boolean;
+	// Share of the time the receiver sees the star; 1 on the day side of a
+	// tidally locked planet or at the poles
+	continuity: number;
+}
+
+export interface ResearchProfile {
+	// Gate recipes and buildings on research; off keeps the ticks but offers all
+	enabled: boolean;
+	completedTechIds: number[];
 }
 
 export interface ViewState {
@@ -105,6 +254,16 @@ export interface TotalsNodePosition {
 export interface CalculatorState {
 	targets: CalculationTarget[];
 	globalDefaults: GlobalDefaults;
+	planMode: PlanMode;
+	solverStatus?: SolverStatus;
+	powerGeneration: PowerGenerationConfig | null;
+	rounding: RoundingConfig;
+	// Produce the proliferators the plan uses up instead of importing them
+	produceProliferators?: boolean;
+	// Techs researched so far; every recipe and building is offered without one
+	research?: ResearchProfile;
+	researchTargets?: ResearchTarget[];
+	logisticsRoutes?: LogisticsRoute[];
 	viewState?: ViewState;
 	nodePositions: NodePosition[];
 	totalsNodePositions: TotalsNodePosition[];
@@ -122,7 +281,11 @@ export interface RateBreakdown {
 export interface FacilitySummary {
 	itemId: number;
 	count: number;
+	// Whole buildings after rounding
+	builtCount: number;
 	recipeType?: string;
+	// Work power of all facilities of this type in watts
+	power: number;
 }
 
 export interface ResourceNeeds {
@@ -131,6 +294,13 @@ export interface ResourceNeeds {
 	gathered: Map<number, number>;
 }
 
+export interface GatheringSummary {
+	// Average Dyson sphere power the plan's receivers draw, in watts
+	spherePower: number;
+	// Graviton lenses used up per second
+	lensRate: number;
+}
+
 export const PROLIFERATOR_SPEED_MULTIPLIERS: Record<number, number> = {
 	0: 1,
 	1: 1.25,
@@ -145,6 +315,14 @@ export const PROLIFERATOR_PRODUCT_MULTIPLIERS: Record<number, number> = {
 	3: 1.25,
 };
 
+// Sprayed facilities draw extra power in either proliferator mode
+export const PROLIFERATOR_POWER_MULTIPLIERS: Record<number, number> = {
+	0: 1,
+	1: 1.3,
+	2: 1.7,
+	3: 2.5,
+};
+
 export const TICKS_PER_SECOND = 60;
 
 // Proliferator charges per item (how many items can be sprayed per proliferator)
@@ -154,15 +332,68 @@ export const PROLIFERATOR_CHARGES: Record<number, number> = {
 	1143: 60, // Mk.III
 };
 
+// Proliferator item sprayed at each level
+export const PROLIFERATOR_ITEM_IDS: Record<number, number> = {
+	1: 1141, // Mk.I
+	2: 1142, // Mk.II
+	3: 1143, // Mk.III
+};
+
 // Default charges if specific level not found
 export const DEFAULT_PROLIFERATOR_CHARGES = 12;
 
+// Conveyor belt throughput in items per second
+export const BELT_SPEEDS: Record<number, number> = {
+	2001: 6, // Mk.I
+	2002: 12, // Mk.II
+	2003: 30, // Mk.III
+};
+
+export const DEFAULT_BELT_ITEM_ID = 2003;
+
+// Output per covered vein of each miner at 100% speed, in items per second
+export const MINER_VEIN_RATES: Record<number, number> = {
+	2301: 0.5, // Mining Machine
+	2316: 1, // Advanced Mining Machine
+};
+
+export const ADVANCED_MINER_ITEM_ID = 2316;
+export const MAX_MINER_SPEED_SETTING = 3;
+
+export const DEFAULT_MINING_CONFIG: MiningConfig = {
+	minerItemId: 2301,
+	veinsPerMiner: 6,
+	speedSetting: 1,
+};
+
+export const DEFAULT_RAY_RECEIVER_CONFIG: RayReceiverConfig = {
+	lens: false,
+	continuity: 1,
+};
+
+// No carrier research; vessels warp from 12 AU on, the stations' default
+export const DEFAULT_LOGISTICS_CONFIG: LogisticsConfig = {
+	engineLevel: 0,
+	capacityLevel: 0,
+	warpDistance: 480_000,
+};
+
+// Share of the items passing a fractionator that get converted
+export const FRACTIONATION_CHANCE = 0.01;
+
+export interface FractionationRates {
+	outputRate: number; // Converted items per second
+	inputRate: number; // Input items consumed per second
+	passThroughRate: number; // Input items leaving unconverted per second
+}
+
 export interface ProliferatorConsumption {
 	itemId: number; // Which proliferator item (1141, 1142, 1143)
 	chargesPerCraft: number; // How many charges consumed per craft
 	itemsPerCraft: number; // How many proliferator ITEMS consumed per craft
 	chargesPerSecond: number; // Charges consumed per second at current rate
 	itemsPerSecond: number; // Proliferator ITEMS consumed per second
+	sprayCoaters?: number; // Spray coaters needed to coat the input belts
 }
 
 export function getProliferatorMultiplier(
@@ -196,6 +427,8 @@ export interface RecipeData {
 	timeSpend: number;
 	inputs: RecipeInput[];
 	outputs: RecipeOutput[];
+	// Proliferators can't add extra products to this recipe
+	nonProductive?: boolean;
 }
 
 export interface FacilityData {
@@ -211,4 +444,14 @@ export interface CalculationContext {
 	getFacilityData(itemId: number): FacilityData | undefined;
 	getMiningTime(itemId: number): number | undefined;
 	getExtractionSpeed(itemId: number): number | undefined;
+	// Preferred extractor, such as orbital collectors on the best theme
+	getExtractor?(itemId: number): Extractor | undefined;
+	// Gathering building, such as Ray Receivers for critical photons
+	getGatherer?(itemId: number): Gatherer | undefined;
+	// Facility to build instead of a default that research hasn't unlocked
+	getUnlockedFacility?(facilityItemId: number, recipeType: string): number;
+	// Plan-wide rounding; exact counts when absent
+	rounding?: RoundingConfig;
+	// Mining speed research multiplier; 1 when absent
+	miningSpeed?: number;
 }
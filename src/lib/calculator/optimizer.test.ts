@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import type { FacilityConfig, RecipeData } from "./models";
+import { optimizeRecipes, type RecipeOptimizerContext } from "./optimizer";
+
+const recipes: RecipeData[] = [
+	// 2 ore -> 1 product in one second
+	{
+		id: 10,
+		type: "Assemble",
+		timeSpend: 60,
+		inputs: [{ itemId: 2, count: 2 }],
+		outputs: [{ itemId: 1, count: 1 }],
+	},
+	// 1 ore -> 1 product in four seconds
+	{
+		id: 11,
+		type: "Assemble",
+		timeSpend: 240,
+		inputs: [{ itemId: 2, count: 1 }],
+		outputs: [{ itemId: 1, count: 1 }],
+	},
+	// 1 product -> 1 ore, which would loop back into the product
+	{
+		id: 12,
+		type: "Assemble",
+		timeSpend: 60,
+		inputs: [{ itemId: 1, count: 1 }],
+		outputs: [{ itemId: 2, count: 1 }],
+	},
+];
+
+const facility: FacilityConfig = {
+	itemId: 2303,
+	count: 0,
+	speedMultiplier: 1,
+	modifier: { mode: "none", level: 0 },
+};
+
+const context: RecipeOptimizerContext = {
+	getRecipes: (itemId) =>
+		recipes.filter((r) => r.outputs.some((o) => o.itemId === itemId)),
+	getRawSupply: (itemId) =>
+		itemId === 2 ? { facilityCount: 0.5, power: 0 } : undefined,
+	getFacility: () => facility,
+	getFacilityPower: () => 100,
+};
+
+describe("optimizeRecipes", () => {
+	it("should pick the recipe with the least ore", () => {
+		const result = optimizeRecipes(1, "ore", context);
+
+		expect(result.recipes.get(1)).toBe(11);
+		expect(result.cost).toBeCloseTo(1, 6);
+	});
+
+	it("should pick the recipe with the fewest buildings", () => {
+		const result = optimizeRecipes(1, "buildings", context);
+
+		// 1 assembler + 2 ore at 0.5 miners each, against 4 assemblers + 0.5
+		expect(result.recipes.get(1)).toBe(10);
+		expect(result.cost).toBeCloseTo(2, 6);
+	});
+
+	it("should not loop through recipes that need the item being costed", () => {
+		const looped: RecipeOptimizerContext = {
+			...context,
+			getRawSupply: () => undefined,
+		};
+
+		const result = optimizeRecipes(1, "power", looped);
+
+		expect(result.cost).toBe(Number.POSITIVE_INFINITY);
+		expect(result.recipes.has(1)).toBe(false);
+	});
+});
@@ -0,0 +1,109 @@
+import type { FacilityConfig, RecipeData } from "./models";
+import { calculateRecipeInputRate, calculateRecipeOutputRate } from "./utils";
+
+// "ore" counts raw resources per second, "buildings" counts facilities and
+// "power" adds up their work power
+export type RecipeObjective = "ore" | "buildings" | "power";
+
+// What one item per second of a resource the plan doesn't craft takes
+export interface RawSupply {
+	facilityCount: number;
+	power: number;
+}
+
+export interface RecipeOptimizerContext {
+	getRecipes: (itemId: number) => RecipeData[];
+	// Undefined for items the plan crafts
+	getRawSupply: (itemId: number) => RawSupply | undefined;
+	getFacility: (recipe: RecipeData) => FacilityConfig;
+	// Work power of one running facility, in watts
+	getFacilityPower: (facility: FacilityConfig) => number;
+}
+
+export interface RecipeOptimization {
+	// Cheapest recipe per crafted item
+	recipes: Map<number, number>;
+	// Objective for one item per second of the target item
+	cost: number;
+}
+
+/**
+ * Picks the recipe for each item that makes one item per second of `itemId`
+ * cheapest under `objective`. Costs add up along the inputs, so the cheapest
+ * recipe for an item is the same wherever it is used. Byproducts earn no
+ * credit, and recipes that need an item already being costed further up are
+ * skipped rather than looped.
+ */
+export function optimizeRecipes(
+	itemId: number,
+	objective: RecipeObjective,
+	context: RecipeOptimizerContext,
+): RecipeOptimization {
+	const costs = new Map<number, number>();
+	const recipes = new Map<number, number>();
+	const visiting = new Set<number>();
+
+	function facilityCost(facility: FacilityConfig): number {
+		if (objective === "buildings") return 1;
+		if (objective === "power") return context.getFacilityPower(facility);
+		return 0;
+	}
+
+	function recipeCost(recipe: RecipeData, outputItemId: number): number {
+		const facility = context.getFacility(recipe);
+		const outputCount =
+			recipe.outputs.find((o) => o.itemId === outputItemId)?.count ?? 0;
+		const selfInputCount =
+			recipe.inputs.find((i) => i.itemId === outputItemId)?.count ?? 0;
+		// Recipes that use up some of their own product only count what is left
+		const outputRate =
+			calculateRecipeOutputRate(recipe, outputCount, facility) -
+			calculateRecipeInputRate(recipe, selfInputCount, facility);
+		if (outputRate <= 0) return Number.POSITIVE_INFINITY;
+
+		let cost = facilityCost(facility) / outputRate;
+		for (const input of recipe.inputs) {
+			if (input.itemId === outputItemId) continue;
+			const inputRate = calculateRecipeInputRate(recipe, input.count, facility);
+			cost += (unitCost(input.itemId) * inputRate) / outputRate;
+		}
+		return cost;
+	}
+
+	function unitCost(id: number): number {
+		const known = costs.get(id);
+		if (known !== undefined) return known;
+		if (visiting.has(id)) return Number.POSITIVE_INFINITY;
+
+		const raw = context.getRawSupply(id);
+		const candidates = raw ? [] : context.getRecipes(id);
+		if (candidates.length === 0) {
+			const cost =
+				objective === "ore"
+					? 1
+					: objective === "buildings"
+						? (raw?.facilityCount ?? 0)
+						: (raw?.power ?? 0);
+			costs.set(id, cost);
+			return cost;
+		}
+
+		visiting.add(id);
+		let best = Number.POSITIVE_INFINITY;
+		for (const recipe of candidates) {
+			const cost = recipeCost(recipe, id);
+			// Ties keep the earlier, default recipe
+			if (cost < best) {
+				best = cost;
+				recipes.set(id, recipe.id);
+			}
+		}
+		visiting.delete(id);
+
+		costs.set(id, best);
+		return best;
+	}
+
+	const cost = unitCost(itemId);
+	return { recipes, cost };
+}
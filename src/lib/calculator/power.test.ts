@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { calculatePowerGeneration } from "./power";
+
+describe("calculatePowerGeneration", () => {
+	it("should burn fuel at the rate the required power draws", () => {
+		// 4.32 MW from Thermal Power Plants (2.16 MW) burning coal (2.7 MJ)
+		const result = calculatePowerGeneration(
+			4_320_000,
+			{ itemId: 2204, power: 2_160_000 },
+			{ itemId: 1006, heatValue: 2_700_000 },
+		);
+		expect(result.generatorCount).toBeCloseTo(2, 6);
+		expect(result.fuelItemId).toBe(1006);
+		expect(result.fuelRate).toBeCloseTo(1.6, 6);
+	});
+
+	it("should not burn fuel in generators that run without it", () => {
+		const result = calculatePowerGeneration(
+			900_000,
+			{ itemId: 2203, power: 300_000 },
+			{ itemId: 1006, heatValue: 2_700_000 },
+		);
+		expect(result.generatorCount).toBeCloseTo(3, 6);
+		expect(result.fuelItemId).toBeNull();
+		expect(result.fuelRate).toBe(0);
+	});
+});
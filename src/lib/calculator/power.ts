@@ -0,0 +1,51 @@
+/**
+ * Fuel categories each fuelled generator accepts, as bit flags matching
+ * `Item.FuelType`. Generators not listed here run without fuel.
+ */
+export const GENERATOR_FUEL_TYPES: Record<number, number> = {
+	2204: 1, // Thermal Power Plant: chemical fuel
+	2211: 2, // Mini Fusion Power Plant: fusion fuel rods
+	2210: 4, // Artificial Star: antimatter fuel rods
+};
+
+export interface GeneratorData {
+	itemId: number;
+	power: number; // watts at full output
+}
+
+export interface FuelData {
+	itemId: number;
+	heatValue: number; // joules per item
+}
+
+export interface PowerGeneration {
+	requiredPower: number; // watts
+	generatorItemId: number;
+	generatorCount: number;
+	fuelItemId: number | null;
+	fuelRate: number; // items/sec burned by all generators
+}
+
+export function isFuelledGenerator(generatorItemId: number): boolean {
+	return GENERATOR_FUEL_TYPES[generatorItemId] !== undefined;
+}
+
+/**
+ * Generators needed to cover the required power, and the fuel they burn when
+ * running at the required output
+ */
+export function calculatePowerGeneration(
+	requiredPower: number,
+	generator: GeneratorData,
+	fuel: FuelData | null,
+): PowerGeneration {
+	const needsFuel = isFuelledGenerator(generator.itemId) && fuel !== null;
+	return {
+		requiredPower,
+		generatorItemId: generator.itemId,
+		generatorCount: generator.power > 0 ? requiredPower / generator.power : 0,
+		fuelItemId: needsFuel ? fuel.itemId : null,
+		fuelRate:
+			needsFuel && fuel.heatValue > 0 ? requiredPower / fuel.heatValue : 0,
+	};
+}
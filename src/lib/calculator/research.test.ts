@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+	calculateResearchLabs,
+	calculateTechCost,
+	getTechHashNeeded,
+	sumResearchCosts,
+	type TechCostData,
+} from "./research";
+
+// Electromagnetic Matrix: 10 magnetic coils and 10 circuit boards
+const matrixTech: TechCostData = {
+	HashNeeded: 1800,
+	Level: 0,
+	MaxLevel: 0,
+	LevelCoef1: 0,
+	LevelCoef2: 0,
+	Items: [1202, 1301],
+	ItemPoints: [20, 20],
+};
+
+// Vein Utilization from level 6 on, in universe matrices
+const veinTech: TechCostData = {
+	HashNeeded: -18_000_000,
+	Level: 6,
+	MaxLevel: 10000,
+	LevelCoef1: 3_600_000,
+	LevelCoef2: 0,
+	Items: [6006],
+	ItemPoints: [4],
+};
+
+describe("calculateTechCost", () => {
+	it("should turn hashes into research items by their points", () => {
+		const cost = calculateTechCost(matrixTech);
+
+		expect(cost.hashes).toBe(1800);
+		expect(cost.items.get(1202)).toBe(10);
+		expect(cost.items.get(1301)).toBe(10);
+	});
+
+	it("should add up a range of upgrade levels", () => {
+		expect(getTechHashNeeded(veinTech, 6)).toBe(3_600_000);
+		expect(getTechHashNeeded(veinTech, 7)).toBe(7_200_000);
+
+		const cost = calculateTechCost(veinTech, 6, 7);
+
+		expect(cost.hashes).toBe(10_800_000);
+		expect(cost.items.get(6006)).toBe(12_000);
+	});
+
+	it("should clamp levels a tech doesn't have", () => {
+		expect(calculateTechCost(veinTech, 1, 6).hashes).toBe(3_600_000);
+		expect(
+			sumResearchCosts([
+				calculateTechCost(matrixTech),
+				calculateTechCost(matrixTech),
+			]).items.get(1202),
+		).toBe(20);
+	});
+});
+
+describe("calculateResearchLabs", () => {
+	it("should count labs and stacks for a hash rate", () => {
+		// 600 hashes/s on Matrix Labs at 60 hashes/s each
+		const labs = calculateResearchLabs(veinTech, 600, 60);
+
+		expect(labs.labs).toBe(10);
+		expect(labs.stacks).toBe(4);
+		expect(labs.itemRates.get(6006)).toBeCloseTo(600 * (4 / 3600));
+	});
+
+	it("should need fewer labs with research speed and taller stacks", () => {
+		const labs = calculateResearchLabs(matrixTech, 600, 60, 2, 15);
+
+		expect(labs.labs).toBe(5);
+		expect(labs.stacks).toBe(1);
+		// The items used up don't depend on how fast the labs are
+		expect(labs.itemRates.get(1202)).toBeCloseTo(600 * (20 / 3600));
+	});
+});
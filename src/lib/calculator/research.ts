@@ -0,0 +1,122 @@
+import type { Tech } from "../data/models";
+
+// A research item with N ItemPoints covers N / RESEARCH_POINT_HASHES of a hash
+export const RESEARCH_POINT_HASHES = 3600;
+
+export type TechCostData = Pick<
+	Tech,
+	| "HashNeeded"
+	| "Level"
+	| "MaxLevel"
+	| "LevelCoef1"
+	| "LevelCoef2"
+	| "Items"
+	| "ItemPoints"
+>;
+
+// A tech to research, with a level range for repeatable upgrades
+export interface ResearchSelection {
+	techId: number;
+	fromLevel?: number;
+	toLevel?: number;
+}
+
+export interface ResearchCost {
+	hashes: number;
+	// Research items used up, keyed by item
+	items: Map<number, number>;
+}
+
+/**
+ * Hashes one level of a tech takes. Repeatable upgrades grow with the level
+ * through their coefficients; other techs use HashNeeded as it is.
+ */
+export function getTechHashNeeded(tech: TechCostData, level: number): number {
+	if (tech.LevelCoef1 === 0 && tech.LevelCoef2 === 0) return tech.HashNeeded;
+	return (
+		tech.HashNeeded + tech.LevelCoef1 * level + tech.LevelCoef2 * level * level
+	);
+}
+
+/**
+ * Hashes and research items for levels `fromLevel` to `toLevel` of a tech,
+ * clamped to the levels it has.
+ */
+export function calculateTechCost(
+	tech: TechCostData,
+	fromLevel = tech.Level,
+	toLevel = fromLevel,
+): ResearchCost {
+	const first = Math.max(tech.Level, fromLevel);
+	const last = Math.min(Math.max(tech.Level, tech.MaxLevel), toLevel);
+	let hashes = 0;
+	for (let level = first; level <= last; level++) {
+		hashes += getTechHashNeeded(tech, level);
+	}
+
+	const items = new Map<number, number>();
+	tech.Items.forEach((itemId, index) => {
+		const points = tech.ItemPoints[index] ?? 0;
+		items.set(
+			itemId,
+			(items.get(itemId) ?? 0) + (hashes * points) / RESEARCH_POINT_HASHES,
+		);
+	});
+
+	return { hashes, items };
+}
+
+/** Adds up several research costs */
+export function sumResearchCosts(costs: ResearchCost[]): ResearchCost {
+	const items = new Map<number, number>();
+	let hashes = 0;
+	for (const cost of costs) {
+		hashes += cost.hashes;
+		for (const [itemId, count] of cost.items) {
+			items.set(itemId, (items.get(itemId) ?? 0) + count);
+		}
+	}
+	return { hashes, items };
+}
+
+// Labs a stack holds before Vertical Construction research
+export const BASE_LAB_STACK_HEIGHT = 3;
+
+export interface ResearchLabs {
+	// Labs in research mode, unrounded
+	labs: number;
+	// Stacks the labs fit in
+	stacks: number;
+	// Research items used up per second, keyed by item
+	itemRates: Map<number, number>;
+}
+
+/**
+ * Labs needed to research a tech at `hashRate` hashes per second. Each lab
+ * manages `labSpeed` hashes per second, times the research speed bonus.
+ */
+export function calculateResearchLabs(
+	tech: Pick<TechCostData, "Items" | "ItemPoints">,
+	hashRate: number,
+	labSpeed: number,
+	researchSpeed = 1,
+	stackHeight = BASE_LAB_STACK_HEIGHT,
+): ResearchLabs {
+	const speed = labSpeed * researchSpeed;
+	const labs = speed > 0 ? hashRate / speed : 0;
+	const itemRates = new Map<number, number>();
+	tech.Items.forEach((itemId, index) => {
+		const points = tech.ItemPoints[index] ?? 0;
+		itemRates.set(
+			itemId,
+			(itemRates.get(itemId) ?? 0) +
+				(hashRate * points) / RESEARCH_POINT_HASHES,
+		);
+	});
+
+	return {
+		labs,
+		stacks: Math.ceil(labs / Math.max(1, stackHeight) - 1e-9),
+		itemRates,
+	};
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import type {
+	CalculationContext,
+	CalculationTarget,
+	GlobalDefaults,
+	RecipeData,
+} from "./models";
+import {
+	getSolverElementId,
+	solveLinearProgram,
+	solveProductionPlan,
+} from "./solver";
+
+const recipes: Record<number, RecipeData> = {
+	// 1 ore -> 1 main product + 1 byproduct, one craft per second
+	10: {
+		id: 10,
+		type: "Refine",
+		timeSpend: 60,
+		inputs: [{ itemId: 2, count: 1 }],
+		outputs: [
+			{ itemId: 1, count: 1 },
+			{ itemId: 3, count: 1 },
+		],
+	},
+	// 1 byproduct -> 1 second product
+	11: {
+		id: 11,
+		type: "Assemble",
+		timeSpend: 60,
+		inputs: [{ itemId: 3, count: 1 }],
+		outputs: [{ itemId: 4, count: 1 }],
+	},
+};
+
+const context: CalculationContext = {
+	getRecipeById: (id) => recipes[id],
+	getItemById: (id) => ({ ID: id, Name: `Item ${id}` }),
+	getDefaultRecipeForItem: (itemId) =>
+		Object.values(recipes).find((r) => r.outputs[0].itemId === itemId)?.id,
+	getDefaultFacilityForRecipeType: () => undefined,
+	getFacilityData: () => undefined,
+	getMiningTime: (itemId) => (itemId === 2 ? 1 : undefined),
+	getExtractionSpeed: (itemId) => (itemId === 3 ? 1 : undefined),
+};
+
+const defaults: GlobalDefaults = {
+	facilities: {},
+	proliferator: { mode: "none", level: 0 },
+};
+
+function target(itemId: number, targetRate: number): CalculationTarget {
+	return {
+		id: `t-${itemId}-${targetRate}`,
+		itemId,
+		targetRate,
+		rootElementId: "",
+	};
+}
+
+describe("solveLinearProgram", () => {
+	it("should find the optimum of a small covering problem", () => {
+		// min x + y  s.t.  x + 2y >= 4, 3x + y >= 6
+		const result = solveLinearProgram(
+			[1, 1],
+			[
+				[1, 2],
+				[3, 1],
+			],
+			[4, 6],
+		);
+		expect(result).not.toBeNull();
+		expect(result?.[0]).toBeCloseTo(1.6, 6);
+		expect(result?.[1]).toBeCloseTo(1.2, 6);
+	});
+
+	it("should return null for infeasible systems", () => {
+		// -x >= 1 has no non-negative solution
+		expect(solveLinearProgram([1], [[-1]], [1])).toBeNull();
+	});
+});
+
+describe("solveProductionPlan", () => {
+	it("should use byproducts to offset demand in another chain", () => {
+		const plan = solveProductionPlan(
+			[target(1, 1), target(4, 1)],
+			new Map(),
+			context,
+			defaults,
+		);
+		expect(plan).not.toBeNull();
+
+		const elements = plan?.elements ?? {};
+		const byproductItem = elements[getSolverElementId(3)];
+		expect(elements[getSolverElementId(1)].facility?.count).toBeCloseTo(1, 6);
+		expect(elements[getSolverElementId(4)].facility?.count).toBeCloseTo(1, 6);
+		// The byproduct covers the whole demand, so nothing is extracted
+		expect(byproductItem.requiredRate).toBeCloseTo(1, 6);
+		expect(byproductItem.actualRate).toBeCloseTo(0, 6);
+		expect(elements[getSolverElementId(2)].actualRate).toBeCloseTo(1, 6);
+	});
+
+	it("should extract the remainder when byproducts fall short", () => {
+		const plan = solveProductionPlan(
+			[target(1, 1), target(4, 3)],
+			new Map(),
+			context,
+			defaults,
+		);
+		const byproductItem = plan?.elements[getSolverElementId(3)];
+		expect(byproductItem?.actualRate).toBeCloseTo(2, 6);
+		expect(byproductItem?.byproductSupply).toBeCloseTo(1, 6);
+		expect(plan?.elements[getSolverElementId(1)].byproducts[0]).toMatchObject({
+			itemId: 3,
+			consumedBy: [getSolverElementId(3)],
+		});
+	});
+
+	it("should point every target at the element for its item", () => {
+		const plan = solveProductionPlan(
+			[target(1, 1), target(1, 2)],
+			new Map(),
+			context,
+			defaults,
+		);
+		expect(plan?.rootElementIds).toEqual({
+			"t-1-1": getSolverElementId(1),
+			"t-1-2": getSolverElementId(1),
+		});
+		expect(plan?.elements[getSolverElementId(1)].actualRate).toBeCloseTo(3, 6);
+	});
+});
@@ -0,0 +1,586 @@
+import type {
+	CalculationContext,
+	CalculationElement,
+	CalculationTarget,
+	ElementSource,
+	ExtractionSource,
+	FacilityConfig,
+	GatheringSource,
+	GlobalDefaults,
+	MiningSource,
+	RecipeData,
+	RecipeSource,
+} from "./models";
+import {
+	calculateElementProliferation,
+	calculateExtractionRate,
+	calculateGatheringRate,
+	calculateMinerRate,
+	calculateRecipeInputRate,
+	calculateRecipeOutputRate,
+	createBaseElement,
+	createFacilityConfig,
+	getBuiltFacilityCount,
+	setElementToExtraction,
+	setElementToGathering,
+	setElementToMining,
+	withValidModifier,
+} from "./utils";
+
+export const SOLVER_ELEMENT_PREFIX = "solver-";
+
+const EPSILON = 1e-9;
+
+// Cost per facility, kept tiny so raw resources always dominate the objective
+const FACILITY_COST = 1e-3;
+
+export interface PlanChoice {
+	source: ElementSource | null;
+	facility: FacilityConfig | null;
+}
+
+export interface SolvedPlan {
+	elements: Record<string, CalculationElement>;
+	rootElementIds: Record<string, string>;
+}
+
+/**
+ * Minimize c·x subject to A·x >= b and x >= 0 (two-phase simplex, Bland's rule).
+ * Returns null when the system has no feasible solution.
+ */
+export function solveLinearProgram(
+	c: number[],
+	A: number[][],
+	b: number[],
+): number[] | null {
+	const m = A.length;
+	const n = c.length;
+
+	// Columns: x (n) | surplus/slack (m) | artificial (one per row with b > 0)
+	const artificialRows: number[] = [];
+	for (let i = 0; i < m; i++) {
+		if (b[i] > EPSILON) artificialRows.push(i);
+	}
+	const width = n + m + artificialRows.length;
+	const tableau: number[][] = [];
+	const basis: number[] = [];
+
+	for (let i = 0; i < m; i++) {
+		const row = new Array<number>(width + 1).fill(0);
+		const artificialIndex = artificialRows.indexOf(i);
+		if (artificialIndex !== -1) {
+			// A·x - s + a = b
+			for (let j = 0; j < n; j++) row[j] = A[i][j];
+			row[n + i] = -1;
+			row[n + m + artificialIndex] = 1;
+			row[width] = b[i];
+			basis.push(n + m + artificialIndex);
+		} else {
+			// -A·x + s = -b, feasible with the slack in the basis
+			for (let j = 0; j < n; j++) row[j] = -A[i][j];
+			row[n + i] = 1;
+			row[width] = Math.max(0, -b[i]);
+			basis.push(n + i);
+		}
+		tableau.push(row);
+	}
+
+	function pivot(row: number, col: number): void {
+		const pivotRow = tableau[row];
+		const pivotValue = pivotRow[col];
+		for (let j = 0; j <= width; j++) pivotRow[j] /= pivotValue;
+		for (let i = 0; i < m; i++) {
+			if (i === row) continue;
+			const factor = tableau[i][col];
+			if (Math.abs(factor) < EPSILON) continue;
+			for (let j = 0; j <= width; j++) tableau[i][j] -= factor * pivotRow[j];
+		}
+		basis[row] = col;
+	}
+
+	function optimize(
+		cost: number[],
+		allowed: (col: number) => boolean,
+	): boolean {
+		for (let iteration = 0; iteration < 10_000; iteration++) {
+			// Reduced costs: cost_j - cost_B · column_j
+			let entering = -1;
+			for (let j = 0; j < width; j++) {
+				if (!allowed(j) || basis.includes(j)) continue;
+				let reduced = cost[j];
+				for (let i = 0; i < m; i++) reduced -= cost[basis[i]] * tableau[i][j];
+				if (reduced < -EPSILON) {
+					entering = j;
+					break;
+				}
+			}
+			if (entering === -1) return true;
+
+			let leaving = -1;
+			let bestRatio = Number.POSITIVE_INFINITY;
+			for (let i = 0; i < m; i++) {
+				const coefficient = tableau[i][entering];
+				if (coefficient <= EPSILON) continue;
+				const ratio = tableau[i][width] / coefficient;
+				if (
+					ratio < bestRatio - EPSILON ||
+					(Math.abs(ratio - bestRatio) <= EPSILON && basis[i] < basis[leaving])
+				) {
+					bestRatio = ratio;
+					leaving = i;
+				}
+			}
+			if (leaving === -1) return false;
+			pivot(leaving, entering);
+		}
+		return false;
+	}
+
+	// Phase 1: drive the artificial variables to zero
+	if (artificialRows.length > 0) {
+		const phaseOneCost = new Array<number>(width).fill(0);
+		for (let k = 0; k < artificialRows.length; k++) {
+			phaseOneCost[n + m + k] = 1;
+		}
+		if (!optimize(phaseOneCost, () => true)) return null;
+
+		let infeasibility = 0;
+		for (let i = 0; i < m; i++) {
+			if (basis[i] >= n + m) infeasibility += tableau[i][width];
+		}
+		if (infeasibility > 1e-7) return null;
+
+		// Pivot degenerate artificials out of the basis where possible
+		for (let i = 0; i < m; i++) {
+			if (basis[i] < n + m) continue;
+			for (let j = 0; j < n + m; j++) {
+				if (Math.abs(tableau[i][j]) > EPSILON) {
+					pivot(i, j);
+					break;
+				}
+			}
+		}
+	}
+
+	// Phase 2: optimize the real objective without artificial columns
+	const phaseTwoCost = new Array<number>(width).fill(0);
+	for (let j = 0; j < n; j++) phaseTwoCost[j] = c[j];
+	if (!optimize(phaseTwoCost, (col) => col < n + m)) return null;
+
+	const solution = new Array<number>(n).fill(0);
+	for (let i = 0; i < m; i++) {
+		if (basis[i] < n) solution[basis[i]] = tableau[i][width];
+	}
+	return solution;
+}
+
+/**
+ * Collect the source and facility chosen for each item. Elements reachable
+ * from the targets take precedence over detached ones.
+ */
+export function collectPlanChoices(
+	targets: CalculationTarget[],
+	elements: Record<string, CalculationElement>,
+): Map<number, PlanChoice> {
+	const choices = new Map<number, PlanChoice>();
+	const visited = new Set<string>();
+	const queue = targets.map((t) => t.rootElementId);
+
+	function record(element: CalculationElement): void {
+		if (choices.has(element.itemId)) return;
+		choices.set(element.itemId, {
+			source: element.source,
+			facility: element.facility,
+		});
+	}
+
+	while (queue.length > 0) {
+		const id = queue.shift();
+		if (id === undefined || visited.has(id)) continue;
+		visited.add(id);
+		const element = elements[id];
+		if (!element) continue;
+		record(element);
+		queue.push(...element.inputs);
+	}
+
+	for (const element of Object.values(elements)) {
+		if (!visited.has(element.id)) record(element);
+	}
+
+	return choices;
+}
+
+function getDefaultChoice(
+	itemId: number,
+	context: CalculationContext,
+	defaults: GlobalDefaults,
+): PlanChoice {
+	const miningTime = context.getMiningTime(itemId);
+	if (miningTime !== undefined) {
+		const mined = setElementToMining(
+			createBaseElement(itemId, 0, null, 0),
+			miningTime,
+			defaults.mining,
+		);
+		return { source: mined.source, facility: mined.facility };
+	}
+
+	const extractor = context.getExtractor?.(itemId);
+	if (extractor) {
+		const { type: _type, extractionSpeed, ...details } = extractor.source;
+		const extracted = setElementToExtraction(
+			createBaseElement(itemId, 0, null, 0),
+			extractionSpeed,
+			extractor.facilityItemId,
+			details,
+		);
+		return { source: extracted.source, facility: extracted.facility };
+	}
+
+	const gatherer = context.getGatherer?.(itemId);
+	if (gatherer) {
+		const { type: _type, gatheringSpeed, ...details } = gatherer.source;
+		const gathered = setElementToGathering(
+			createBaseElement(itemId, 0, null, 0),
+			gatheringSpeed,
+			gatherer.facilityItemId,
+			details,
+		);
+		return { source: gathered.source, facility: gathered.facility };
+	}
+
+	const extractionSpeed = context.getExtractionSpeed(itemId);
+	if (extractionSpeed !== undefined) {
+		return {
+			source: {
+				type: "extraction",
+				themeId: 0,
+				extractionSpeed,
+				isGas: true,
+			} as ExtractionSource,
+			facility: null,
+		};
+	}
+
+	const recipeId = context.getDefaultRecipeForItem(itemId);
+	const recipe =
+		recipeId !== undefined ? context.getRecipeById(recipeId) : null;
+	if (recipe) {
+		return {
+			source: { type: "recipe", recipeId: recipe.id, recipeType: recipe.type },
+			facility: createFacilityConfig(recipe.type, context, defaults),
+		};
+	}
+
+	return { source: null, facility: null };
+}
+
+function getChoiceRecipe(
+	choice: PlanChoice,
+	itemId: number,
+	context: CalculationContext,
+): RecipeData | undefined {
+	if (choice.source?.type !== "recipe") return undefined;
+	const recipe = context.getRecipeById(
+		(choice.source as RecipeSource).recipeId,
+	);
+	return recipe?.outputs.some((o) => o.itemId === itemId) ? recipe : undefined;
+}
+
+interface RecipeVariable {
+	itemId: number;
+	recipe: RecipeData;
+	facility: FacilityConfig;
+	// Net items/sec per facility, keyed by item
+	net: Map<number, number>;
+}
+
+function perFacilityRate(
+	recipe: RecipeData,
+	itemId: number,
+	facility: FacilityConfig,
+	direction: "input" | "output",
+): number {
+	const entries = direction === "input" ? recipe.inputs : recipe.outputs;
+	const rateFn =
+		direction === "input"
+			? calculateRecipeInputRate
+			: calculateRecipeOutputRate;
+	return entries
+		.filter((entry) => entry.itemId === itemId)
+		.reduce((sum, entry) => sum + rateFn(recipe, entry.count, facility), 0);
+}
+
+/**
+ * Solve all targets as one linear system so byproducts of one chain offset
+ * demand in another. Returns null when no feasible plan exists.
+ */
+export function solveProductionPlan(
+	targets: CalculationTarget[],
+	choices: Map<number, PlanChoice>,
+	context: CalculationContext,
+	defaults: GlobalDefaults,
+): SolvedPlan | null {
+	const demand = new Map<number, number>();
+	for (const target of targets) {
+		demand.set(
+			target.itemId,
+			(demand.get(target.itemId) ?? 0) + target.targetRate,
+		);
+	}
+
+	// Discover every item reachable through the chosen recipes
+	const resolved = new Map<number, PlanChoice>();
+	const recipeVariables: RecipeVariable[] = [];
+	const itemOrder: number[] = [];
+	const queue = Array.from(demand.keys());
+
+	function addItem(itemId: number): void {
+		if (!itemOrder.includes(itemId)) itemOrder.push(itemId);
+	}
+
+	while (queue.length > 0) {
+		const itemId = queue.shift();
+		if (itemId === undefined || resolved.has(itemId)) continue;
+		addItem(itemId);
+
+		let choice =
+			choices.get(itemId) ?? getDefaultChoice(itemId, context, defaults);
+		let recipe = getChoiceRecipe(choice, itemId, context);
+		if (choice.source?.type === "recipe" && !recipe) {
+			// Stale choice (recipe no longer produces this item)
+			choice = getDefaultChoice(itemId, context, defaults);
+			recipe = getChoiceRecipe(choice, itemId, context);
+		}
+		resolved.set(itemId, choice);
+
+		if (!recipe) continue;
+
+		const facility = withValidModifier(
+			recipe,
+			choice.facility ?? createFacilityConfig(recipe.type, context, defaults),
+		);
+		const net = new Map<number, number>();
+		for (const entry of [...recipe.inputs, ...recipe.outputs]) {
+			if (net.has(entry.itemId)) continue;
+			net.set(
+				entry.itemId,
+				perFacilityRate(recipe, entry.itemId, facility, "output") -
+					perFacilityRate(recipe, entry.itemId, facility, "input"),
+			);
+			addItem(entry.itemId);
+		}
+		recipeVariables.push({ itemId, recipe, facility, net });
+
+		for (const input of recipe.inputs) queue.push(input.itemId);
+	}
+
+	// Items without a recipe variable are supplied externally (mined, extracted or imported)
+	const supplyItems = itemOrder.filter(
+		(itemId) => !recipeVariables.some((v) => v.itemId === itemId),
+	);
+
+	const cost = [
+		...recipeVariables.map(() => FACILITY_COST),
+		...supplyItems.map(() => 1),
+	];
+	const matrix = itemOrder.map((itemId) => [
+		...recipeVariables.map((v) => v.net.get(itemId) ?? 0),
+		...supplyItems.map((supplyId) => (supplyId === itemId ? 1 : 0)),
+	]);
+	const bounds = itemOrder.map((itemId) => demand.get(itemId) ?? 0);
+
+	const solution = solveLinearProgram(cost, matrix, bounds);
+	if (!solution) return null;
+
+	const facilityCounts = new Map<number, number>();
+	recipeVariables.forEach((v, index) => {
+		facilityCounts.set(v.itemId, clean(solution[index]));
+	});
+	const supplyRates = new Map<number, number>();
+	supplyItems.forEach((itemId, index) => {
+		supplyRates.set(itemId, clean(solution[recipeVariables.length + index]));
+	});
+
+	// Gross consumption per item (recipe inputs plus target demand)
+	const consumption = new Map(demand);
+	const consumers = new Map<number, string[]>();
+	for (const v of recipeVariables) {
+		const count = facilityCounts.get(v.itemId) ?? 0;
+		for (const input of v.recipe.inputs) {
+			const rate = perFacilityRate(v.recipe, input.itemId, v.facility, "input");
+			consumption.set(
+				input.itemId,
+				(consumption.get(input.itemId) ?? 0) + rate * count,
+			);
+			const list = consumers.get(input.itemId) ?? [];
+			if (!list.includes(getSolverElementId(v.itemId))) {
+				list.push(getSolverElementId(v.itemId));
+			}
+			consumers.set(input.itemId, list);
+		}
+	}
+
+	const elements: Record<string, CalculationElement> = {};
+	for (const itemId of resolved.keys()) {
+		const choice = resolved.get(itemId) as PlanChoice;
+		const id = getSolverElementId(itemId);
+		const base: CalculationElement = {
+			...createBaseElement(itemId, consumption.get(itemId) ?? 0, null, 0),
+			id,
+			parentIds: consumers.get(itemId) ?? [],
+		};
+
+		const variable = recipeVariables.find((v) => v.itemId === itemId);
+		if (variable) {
+			const count = facilityCounts.get(itemId) ?? 0;
+			const { recipe, facility } = variable;
+			elements[id] = {
+				...base,
+				actualRate: perFacilityRate(recipe, itemId, facility, "output") * count,
+				source: choice.source,
+				facility: {
+					...facility,
+					count,
+					// One element per item, so per-element and per-item rounding agree
+					builtCount: getBuiltFacilityCount(
+						count,
+						context.rounding && context.rounding.mode !== "exact"
+							? "element"
+							: "exact",
+					),
+				},
+				inputs: recipe.inputs
+					.map((input) => getSolverElementId(input.itemId))
+					.filter((inputId, i, all) => all.indexOf(inputId) === i),
+				byproducts: recipe.outputs
+					.filter((o) => o.itemId !== itemId)
+					.map((o) => ({
+						itemId: o.itemId,
+						rate: perFacilityRate(recipe, o.itemId, facility, "output") * count,
+						consumedBy: [] as string[],
+					})),
+				proliferatorConsumption: calculateElementProliferation(
+					recipe,
+					facility,
+					count,
+					recipe.inputs.map(
+						(input) =>
+							perFacilityRate(recipe, input.itemId, facility, "input") * count,
+					),
+				),
+			};
+			continue;
+		}
+
+		const supplied = supplyRates.get(itemId) ?? 0;
+		elements[id] = {
+			...base,
+			actualRate: choice.source ? supplied : 0,
+			source: choice.source,
+			facility: getSupplyFacility(
+				choice.source,
+				choice.facility,
+				supplied,
+				context.miningSpeed,
+			),
+		};
+	}
+
+	// Byproducts feed the element for their item, which then produces less itself
+	for (const id of Object.keys(elements)) {
+		const producer = elements[id];
+		if (producer.byproducts.length === 0) continue;
+		elements[id] = {
+			...producer,
+			byproducts: producer.byproducts.map((byproduct) => {
+				const consumerId = getSolverElementId(byproduct.itemId);
+				const consumer = elements[consumerId];
+				if (!consumer) return byproduct;
+
+				const supplied = consumer.byproductSupply ?? 0;
+				const given = Math.min(
+					byproduct.rate,
+					consumer.requiredRate - supplied,
+				);
+				if (given <= 0) return byproduct;
+
+				elements[consumerId] = {
+					...consumer,
+					byproductSupply: supplied + given,
+				};
+				return {
+					...byproduct,
+					consumedBy: [consumerId],
+					consumedRates: { [consumerId]: given },
+				};
+			}),
+		};
+	}
+
+	assignDepths(targets, elements);
+
+	const rootElementIds: Record<string, string> = {};
+	for (const target of targets) {
+		rootElementIds[target.id] = getSolverElementId(target.itemId);
+	}
+
+	return { elements, rootElementIds };
+}
+
+export function getSolverElementId(itemId: number): string {
+	return `${SOLVER_ELEMENT_PREFIX}${itemId}`;
+}
+
+function getSupplyFacility(
+	source: ElementSource | null,
+	facility: FacilityConfig | null,
+	supplied: number,
+	miningSpeed?: number,
+): FacilityConfig | null {
+	let rate = 0;
+	if (source?.type === "mining") {
+		rate = calculateMinerRate(source as MiningSource, facility, miningSpeed);
+	} else if (source?.type === "extraction") {
+		rate = calculateExtractionRate(
+			(source as ExtractionSource).extractionSpeed,
+		);
+	} else if (source?.type === "gathering") {
+		rate = calculateGatheringRate((source as GatheringSource).gatheringSpeed);
+	}
+	if (rate <= 0) return null;
+	if (facility) return { ...facility, count: supplied / rate };
+
+	return {
+		itemId: 0,
+		count: supplied / rate,
+		speedMultiplier: 1,
+		modifier: { mode: "none", level: 0 },
+	};
+}
+
+function assignDepths(
+	targets: CalculationTarget[],
+	elements: Record<string, CalculationElement>,
+): void {
+	const queue = targets.map((t) => getSolverElementId(t.itemId));
+	const seen = new Set<string>(queue);
+	while (queue.length > 0) {
+		const id = queue.shift();
+		if (id === undefined) continue;
+		const element = elements[id];
+		if (!element) continue;
+		for (const childId of element.inputs) {
+			const child = elements[childId];
+			if (!child || seen.has(childId)) continue;
+			seen.add(childId);
+			elements[childId] = { ...child, depth: element.depth + 1 };
+			queue.push(childId);
+		}
+	}
+}
+
+function clean(value: number): number {
+	return Math.abs(value) < 1e-9 ? 0 : value;
+}
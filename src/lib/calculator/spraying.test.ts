@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { calculateSprayCoaters } from "./spraying";
+
+describe("calculateSprayCoaters", () => {
+	it("should need one coater per belt each input fills", () => {
+		expect(calculateSprayCoaters([45, 10], 30)).toBe(3);
+		expect(calculateSprayCoaters([30.0000001], 30)).toBe(1);
+	});
+
+	it("should skip inputs that aren't delivered", () => {
+		expect(calculateSprayCoaters([0, 6], 6)).toBe(1);
+		expect(calculateSprayCoaters([12], 0)).toBe(0);
+	});
+});
@@ -0,0 +1,21 @@
+export const SPRAY_COATER_ITEM_ID = 2313;
+
+// Belt rates within this much of a full belt still fit on it
+const BELT_EPSILON = 1e-6;
+
+/**
+ * Spray coaters needed to coat a recipe's inputs. A coater sprays everything
+ * passing on its belt at belt speed, so each input needs one coater per belt
+ * it fills.
+ */
+export function calculateSprayCoaters(
+	inputRates: number[],
+	beltSpeed: number,
+): number {
+	if (beltSpeed <= 0) return 0;
+	return inputRates.reduce(
+		(sum, rate) =>
+			rate > 0 ? sum + Math.ceil(rate / beltSpeed - BELT_EPSILON) : sum,
+		0,
+	);
+}
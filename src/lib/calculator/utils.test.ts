@@ -1,9 +1,31 @@
 import { describe, expect, it } from "vitest";
-import type { ModifierConfig } from "./models";
+import type {
+	CalculationContext,
+	CalculationElement,
+	CalculationTarget,
+	FacilityConfig,
+	GlobalDefaults,
+	ModifierConfig,
+	RecipeData,
+} from "./models";
 import {
+	allocateByproducts,
+	calculateElementPower,
+	calculateFractionation,
 	calculateInputRate,
 	calculateOutputRate,
 	calculateProliferatorConsumption,
+	calculateProliferatorDemand,
+	calculateRecipeInputRate,
+	calculateRecipeOutputRate,
+	createBaseElement,
+	createFacilityConfig,
+	expandElementWithRecipe,
+	mergeSharedElements,
+	recalculateGraph,
+	setElementToExtraction,
+	setElementToMining,
+	withValidModifier,
 } from "./utils";
 
 describe("calculateInputRate", () => {
@@ -101,6 +123,74 @@ describe("calculateOutputRate", () => {
 	});
 });
 
+describe("calculateFractionation", () => {
+	it("should convert one percent of the belt throughput", () => {
+		// Mk.III belt: 30 items/sec pass, 0.3 are converted
+		const result = calculateFractionation(2003, { mode: "none", level: 0 });
+		expect(result.outputRate).toBeCloseTo(0.3, 6);
+		expect(result.inputRate).toBeCloseTo(0.3, 6);
+		expect(result.passThroughRate).toBeCloseTo(29.7, 6);
+	});
+
+	it("should raise the conversion chance for sprayed input", () => {
+		// Mk.I belt: 6 items/sec * 1% * 1.5 spray multiplier = 0.09
+		const result = calculateFractionation(2001, {
+			mode: "product",
+			level: 2,
+		});
+		expect(result.outputRate).toBeCloseTo(0.09, 6);
+	});
+
+	it("should rate fractionate recipes by belt instead of recipe time", () => {
+		const recipe: RecipeData = {
+			id: 115,
+			type: "Fractionate",
+			timeSpend: 1,
+			inputs: [{ itemId: 1120, count: 100 }],
+			outputs: [{ itemId: 1121, count: 1 }],
+		};
+		const facility = {
+			itemId: 2314,
+			count: 0,
+			speedMultiplier: 1,
+			modifier: { mode: "none", level: 0 } as ModifierConfig,
+			beltItemId: 2002,
+		};
+		expect(calculateRecipeOutputRate(recipe, 1, facility)).toBeCloseTo(0.12, 6);
+		expect(calculateRecipeInputRate(recipe, 100, facility)).toBeCloseTo(
+			0.12,
+			6,
+		);
+	});
+});
+
+describe("setElementToMining", () => {
+	it("should count miners and the veins they cover", () => {
+		// Mining Machine: 0.5/s per vein, 6 veins -> 3/s per miner
+		const result = setElementToMining(createBaseElement(1001, 9, null, 0), 60, {
+			minerItemId: 2301,
+			veinsPerMiner: 6,
+			speedSetting: 1,
+		});
+
+		expect(result.facility?.itemId).toBe(2301);
+		expect(result.facility?.count).toBeCloseTo(3, 6);
+		expect(result.actualRate).toBeCloseTo(9, 6);
+	});
+
+	it("should apply the speed setting and mining research", () => {
+		// Advanced Mining Machine at 200%, 4 veins, +20% research -> 9.6/s
+		const result = setElementToMining(
+			createBaseElement(1001, 9.6, null, 0),
+			60,
+			{ minerItemId: 2316, veinsPerMiner: 4, speedSetting: 2 },
+			1.2,
+		);
+
+		expect(result.facility?.count).toBeCloseTo(1, 6);
+	});
+});
+
 describe("calculateProliferatorConsumption", () => {
 	it("should return null when mode is none", () => {
 		const result = calculateProliferatorConsumption(
@@ -242,3 +332,408 @@ describe("calculateProliferatorConsumption", () => {
 		expect(result?.itemsPerSecond).toBeCloseTo(0.833, 3);
 	});
 });
+
+describe("withValidModifier", () => {
+	const recipe: RecipeData = {
+		id: 40,
+		type: "Particle",
+		timeSpend: 300,
+		inputs: [{ itemId: 1120, count: 10 }],
+		outputs: [{ itemId: 1121, count: 5 }],
+		nonProductive: true,
+	};
+	const facility: FacilityConfig = {
+		itemId: 2310,
+		count: 1,
+		speedMultiplier: 1,
+		modifier: { mode: "product", level: 3 },
+	};
+
+	it("should fall back to speed mode on recipes without extra products", () => {
+		expect(withValidModifier(recipe, facility).modifier).toEqual({
+			mode: "speed",
+			level: 3,
+		});
+	});
+
+	it("should keep product mode where extra products apply", () => {
+		const productive = { ...recipe, nonProductive: false };
+		expect(withValidModifier(productive, facility)).toBe(facility);
+	});
+});
+
+describe("createFacilityConfig", () => {
+	const defaults: GlobalDefaults = {
+		facilities: { Assemble: 2305 },
+		proliferator: { mode: "none", level: 0 },
+	};
+	const context: CalculationContext = {
+		getRecipeById: () => undefined,
+		getItemById: () => undefined,
+		getDefaultRecipeForItem: () => undefined,
+		getDefaultFacilityForRecipeType: () => undefined,
+		getFacilityData: (itemId) => ({
+			itemId,
+			speedMultiplier: itemId === 2305 ? 1.5 : 0.75,
+		}),
+		getMiningTime: () => undefined,
+		getExtractionSpeed: () => undefined,
+		// Only the Mk.I assembler has been researched
+		getUnlockedFacility: (facilityItemId) =>
+			facilityItemId === 2305 ? 2303 : facilityItemId,
+	};
+
+	it("should swap a default facility research hasn't unlocked", () => {
+		const facility = createFacilityConfig("Assemble", context, defaults);
+
+		expect(facility.itemId).toBe(2303);
+		expect(facility.speedMultiplier).toBe(0.75);
+	});
+
+	it("should keep a facility chosen for the element", () => {
+		const facility = createFacilityConfig("Assemble", context, defaults, 2305);
+
+		expect(facility.itemId).toBe(2305);
+	});
+});
+
+describe("calculateElementPower", () => {
+	const facility: FacilityConfig = {
+		itemId: 2303,
+		count: 4,
+		speedMultiplier: 0.75,
+		modifier: { mode: "none", level: 0 },
+	};
+
+	it("should multiply work power by facility count", () => {
+		const element = { ...createBaseElement(1, 1, null, 0), facility };
+		expect(calculateElementPower(element, 270_000)).toBe(1_080_000);
+	});
+
+	it("should add the extra power drawn by sprayed facilities", () => {
+		const element = {
+			...createBaseElement(1, 1, null, 0),
+			facility: { ...facility, modifier: { mode: "speed", level: 3 } },
+		} as CalculationElement;
+		expect(calculateElementPower(element, 270_000)).toBe(2_700_000);
+	});
+});
+
+describe("calculateProliferatorDemand", () => {
+	// 2 inputs per 1 s craft
+	const recipe: RecipeData = {
+		id: 20,
+		type: "Assemble",
+		timeSpend: 60,
+		inputs: [{ itemId: 2, count: 2 }],
+		outputs: [{ itemId: 1, count: 1 }],
+	};
+
+	it("should total the proliferators sprayed recipes use up per item", () => {
+		const element: CalculationElement = {
+			...createBaseElement(1, 3, null, 0),
+			source: { type: "recipe", recipeId: 20, recipeType: "Assemble" },
+			facility: {
+				itemId: 2303,
+				count: 3,
+				speedMultiplier: 1,
+				modifier: { mode: "speed", level: 1 },
+			},
+		};
+		const targets: CalculationTarget[] = [
+			{ id: "a", itemId: 1, targetRate: 3, rootElementId: element.id },
+		];
+
+		const demand = calculateProliferatorDemand(
+			targets,
+			{ [element.id]: element },
+			{ getRecipeById: (id) => (id === 20 ? recipe : undefined) },
+		);
+
+		// 3 crafts/s spray 6 items/s; Mk.I covers 12 items each
+		expect(demand.get(1141)).toBeCloseTo(0.5, 6);
+	});
+});
+
+describe("allocateByproducts", () => {
+	// 1 ore (item 2) -> 1 product (item 1) + 1 byproduct (item 3) per second
+	const context: CalculationContext = {
+		getRecipeById: (id) =>
+			id === 10
+				? {
+						id: 10,
+						type: "Refine",
+						timeSpend: 60,
+						inputs: [{ itemId: 2, count: 1 }],
+						outputs: [
+							{ itemId: 1, count: 1 },
+							{ itemId: 3, count: 1 },
+						],
+					}
+				: undefined,
+		getItemById: () => undefined,
+		getDefaultRecipeForItem: () => undefined,
+		getDefaultFacilityForRecipeType: () => undefined,
+		getFacilityData: () => undefined,
+		getMiningTime: () => undefined,
+		getExtractionSpeed: () => undefined,
+	};
+	const defaults: GlobalDefaults = {
+		facilities: {},
+		proliferator: { mode: "none", level: 0 },
+	};
+
+	it("should let byproducts cover another target's demand", () => {
+		const elements: Record<string, CalculationElement> = {};
+		const product = expandElementWithRecipe(
+			createBaseElement(1, 1, null, 0),
+			10,
+			context,
+			defaults,
+			(child) => {
+				elements[child.id] = setElementToMining(child, 60);
+			},
+		);
+		const byproduct = setElementToExtraction(
+			createBaseElement(3, 2, null, 0),
+			1,
+		);
+		elements[product.id] = product;
+		elements[byproduct.id] = byproduct;
+		const targets: CalculationTarget[] = [
+			{ id: "a", itemId: 1, targetRate: 1, rootElementId: product.id },
+			{ id: "b", itemId: 3, targetRate: 2, rootElementId: byproduct.id },
+		];
+
+		const result = allocateByproducts(targets, elements, context);
+
+		expect(result[byproduct.id].byproductSupply).toBeCloseTo(1, 6);
+		expect(result[byproduct.id].facility?.count).toBeCloseTo(1, 6);
+		expect(result[product.id].byproducts[0]).toMatchObject({
+			itemId: 3,
+			consumedBy: [byproduct.id],
+			consumedRates: { [byproduct.id]: 1 },
+		});
+	});
+});
+
+describe("mergeSharedElements", () => {
+	// Items 1 and 2 both consume item 3, which is made from item 4
+	const recipes: Record<number, RecipeData> = {
+		30: {
+			id: 30,
+			type: "Assemble",
+			timeSpend: 60,
+			inputs: [{ itemId: 3, count: 1 }],
+			outputs: [{ itemId: 1, count: 1 }],
+		},
+		31: {
+			id: 31,
+			type: "Assemble",
+			timeSpend: 60,
+			inputs: [{ itemId: 3, count: 2 }],
+			outputs: [{ itemId: 2, count: 1 }],
+		},
+		32: {
+			id: 32,
+			type: "Assemble",
+			timeSpend: 60,
+			inputs: [{ itemId: 4, count: 1 }],
+			outputs: [{ itemId: 3, count: 1 }],
+		},
+	};
+	const context: CalculationContext = {
+		getRecipeById: (id) => recipes[id],
+		getItemById: () => undefined,
+		getDefaultRecipeForItem: () => undefined,
+		getDefaultFacilityForRecipeType: () => undefined,
+		getFacilityData: () => undefined,
+		getMiningTime: () => undefined,
+		getExtractionSpeed: () => undefined,
+	};
+	const defaults: GlobalDefaults = {
+		facilities: {},
+		proliferator: { mode: "none", level: 0 },
+	};
+
+	function expandTree(
+		itemId: number,
+		recipeId: number,
+		elements: Record<string, CalculationElement>,
+	): string {
+		const root = expandElementWithRecipe(
+			createBaseElement(itemId, 1, null, 0),
+			recipeId,
+			context,
+			defaults,
+			(child) => {
+				elements[child.id] = expandElementWithRecipe(
+					child,
+					32,
+					context,
+					defaults,
+					(leaf) => {
+						elements[leaf.id] = leaf;
+					},
+				);
+			},
+		);
+		elements[root.id] = root;
+		return root.id;
+	}
+
+	it("should merge identical intermediates and sum their demand", () => {
+		const elements: Record<string, CalculationElement> = {};
+		const targets: CalculationTarget[] = [
+			{
+				id: "a",
+				itemId: 1,
+				targetRate: 1,
+				rootElementId: expandTree(1, 30, elements),
+			},
+			{
+				id: "b",
+				itemId: 2,
+				targetRate: 1,
+				rootElementId: expandTree(2, 31, elements),
+			},
+		];
+
+		const merged = mergeSharedElements(targets, elements);
+		const result = recalculateGraph(targets, merged.elements, context);
+
+		const shared = Object.values(result).filter((e) => e.itemId === 3);
+		expect(shared).toHaveLength(1);
+		expect(shared[0].parentIds).toEqual([
+			targets[0].rootElementId,
+			targets[1].rootElementId,
+		]);
+		expect(shared[0].requiredRate).toBeCloseTo(3, 6);
+		expect(shared[0].facility?.count).toBeCloseTo(3, 6);
+		expect(Object.values(result).filter((e) => e.itemId === 4)).toHaveLength(1);
+	});
+});
+
+describe("recalculateGraph with recipe loops", () => {
+	// 2 item 5 + 1 item 6 -> 3 item 5, like X-ray cracking feeding its hydrogen back
+	const context: CalculationContext = {
+		getRecipeById: (id) =>
+			id === 40
+				? {
+						id: 40,
+						type: "Refine",
+						timeSpend: 60,
+						inputs: [
+							{ itemId: 5, count: 2 },
+							{ itemId: 6, count: 1 },
+						],
+						outputs: [{ itemId: 5, count: 3 }],
+					}
+				: undefined,
+		getItemById: () => undefined,
+		getDefaultRecipeForItem: () => undefined,
+		getDefaultFacilityForRecipeType: () => undefined,
+		getFacilityData: () => undefined,
+		getMiningTime: () => undefined,
+		getExtractionSpeed: () => undefined,
+	};
+	const defaults: GlobalDefaults = {
+		facilities: {},
+		proliferator: { mode: "none", level: 0 },
+	};
+
+	it("should run the loop at the rate that leaves the target output", () => {
+		const elements: Record<string, CalculationElement> = {};
+		const root = expandElementWithRecipe(
+			createBaseElement(5, 1, null, 0),
+			40,
+			context,
+			defaults,
+			(child) => {
+				elements[child.id] =
+					child.itemId === 5 ? { ...child, loopOf: child.parentIds[0] } : child;
+			},
+		);
+		elements[root.id] = root;
+		const targets: CalculationTarget[] = [
+			{ id: "a", itemId: 5, targetRate: 1, rootElementId: root.id },
+		];
+
+		const result = recalculateGraph(targets, elements, context);
+
+		const [loop, feed] = result[root.id].inputs.map((id) => result[id]);
+		expect(result[root.id].requiredRate).toBeCloseTo(3, 6);
+		expect(loop.requiredRate).toBeCloseTo(2, 6);
+		expect(feed.requiredRate).toBeCloseTo(1, 6);
+	});
+});
+
+describe("recalculateGraph with facility rounding", () => {
+	// 1 item 8 -> 1 item 7 per second
+	const context: CalculationContext = {
+		getRecipeById: (id) =>
+			id === 50
+				? {
+						id: 50,
+						type: "Assemble",
+						timeSpend: 60,
+						inputs: [{ itemId: 8, count: 1 }],
+						outputs: [{ itemId: 7, count: 1 }],
+					}
+				: undefined,
+		getItemById: () => undefined,
+		getDefaultRecipeForItem: () => undefined,
+		getDefaultFacilityForRecipeType: () => undefined,
+		getFacilityData: () => undefined,
+		getMiningTime: () => undefined,
+		getExtractionSpeed: () => undefined,
+	};
+	const defaults: GlobalDefaults = {
+		facilities: {},
+		proliferator: { mode: "none", level: 0 },
+	};
+
+	function buildPlan() {
+		const elements: Record<string, CalculationElement> = {};
+		const root = expandElementWithRecipe(
+			createBaseElement(7, 2.5, null, 0),
+			50,
+			context,
+			defaults,
+			(child) => {
+				elements[child.id] = child;
+			},
+		);
+		elements[root.id] = root;
+		const targets: CalculationTarget[] = [
+			{ id: "a", itemId: 7, targetRate: 2.5, rootElementId: root.id },
+		];
+		return { root, elements, targets };
+	}
+
+	it("should round each element up to whole buildings", () => {
+		const { root, elements, targets } = buildPlan();
+
+		const result = recalculateGraph(targets, elements, {
+			...context,
+			rounding: { mode: "element", propagate: false },
+		});
+
+		expect(result[root.id].facility?.count).toBeCloseTo(2.5, 6);
+		expect(result[root.id].facility?.builtCount).toBe(3);
+		expect(result[root.inputs[0]].requiredRate).toBeCloseTo(2.5, 6);
+	});
+
+	it("should feed full-speed rates into children when propagating", () => {
+		const { root, elements, targets } = buildPlan();
+
+		const result = recalculateGraph(targets, elements, {
+			...context,
+			rounding: { mode: "element", propagate: true },
+		});
+
+		expect(result[root.id].facility?.count).toBe(3);
+		expect(result[root.id].actualRate).toBeCloseTo(3, 6);
+		expect(result[root.inputs[0]].requiredRate).toBeCloseTo(3, 6);
+	});
+});
@@ -6,20 +6,35 @@ import type {
 	ExtractionSource,
 	FacilityConfig,
 	FacilitySummary,
+	FractionationRates,
+	GatheringSource,
+	GatheringSummary,
 	GlobalDefaults,
+	MiningConfig,
 	MiningSource,
 	ModifierConfig,
 	RateBreakdown,
+	RecipeData,
 	RecipeSource,
 	ResourceNeeds,
+	RoundingMode,
 } from "./models";
 import {
+	ADVANCED_MINER_ITEM_ID,
+	BELT_SPEEDS,
+	DEFAULT_BELT_ITEM_ID,
+	DEFAULT_MINING_CONFIG,
 	DEFAULT_PROLIFERATOR_CHARGES,
+	FRACTIONATION_CHANCE,
 	getProliferatorMultiplier,
+	MINER_VEIN_RATES,
 	PROLIFERATOR_CHARGES,
+	PROLIFERATOR_ITEM_IDS,
+	PROLIFERATOR_POWER_MULTIPLIERS,
 	type ProliferatorConsumption,
 	TICKS_PER_SECOND,
 } from "./models";
+import { calculateSprayCoaters, SPRAY_COATER_ITEM_ID } from "./spraying";
 
 export { getProliferatorMultiplier };
 
@@ -63,6 +78,71 @@ export function calculateInputRate(
 	return baseRate * speedMultiplier;
 }
 
+/**
+ * Fractionators convert a share of the items passing by on their input belt,
+ * so the rate follows belt throughput and spray level instead of recipe time.
+ * Each converted item uses up one input; the rest passes through.
+ */
+export function calculateFractionation(
+	beltItemId: number,
+	modifier: ModifierConfig,
+): FractionationRates {
+	const beltSpeed =
+		BELT_SPEEDS[beltItemId] ?? BELT_SPEEDS[DEFAULT_BELT_ITEM_ID];
+	// Sprayed input raises the conversion chance, whichever mode is selected
+	const sprayMultiplier =
+		modifier.mode === "none"
+			? 1
+			: getProliferatorMultiplier("speed", modifier.level);
+	const outputRate = beltSpeed * FRACTIONATION_CHANCE * sprayMultiplier;
+
+	return {
+		outputRate,
+		inputRate: outputRate,
+		passThroughRate: beltSpeed - outputRate,
+	};
+}
+
+/** Output rate of one facility running the recipe */
+export function calculateRecipeOutputRate(
+	recipe: RecipeData,
+	outputCount: number,
+	facility: FacilityConfig,
+): number {
+	if (recipe.type === "Fractionate") {
+		return calculateFractionation(
+			facility.beltItemId ?? DEFAULT_BELT_ITEM_ID,
+			facility.modifier,
+		).outputRate;
+	}
+	return calculateOutputRate(
+		outputCount,
+		recipe.timeSpend,
+		facility.speedMultiplier,
+		facility.modifier,
+	);
+}
+
+/** Input rate of one facility running the recipe */
+export function calculateRecipeInputRate(
+	recipe: RecipeData,
+	inputCount: number,
+	facility: FacilityConfig,
+): number {
+	if (recipe.type === "Fractionate") {
+		return calculateFractionation(
+			facility.beltItemId ?? DEFAULT_BELT_ITEM_ID,
+			facility.modifier,
+		).inputRate;
+	}
+	return calculateInputRate(
+		inputCount,
+		recipe.timeSpend,
+		facility.speedMultiplier,
+		facility.modifier,
+	);
+}
+
 export function calculateRequiredFacilities(
 	requiredRate: number,
 	outputRate: number,
@@ -71,6 +151,24 @@ export function calculateRequiredFacilities(
 	return requiredRate / outputRate;
 }
 
+const ROUNDING_EPSILON = 1e-6;
+
+/** Whole buildings placed for a fractional facility count */
+export function getBuiltFacilityCount(
+	count: number,
+	mode: RoundingMode,
+): number {
+	if (mode !== "element" || count <= 0) return count;
+	// Tolerate float noise such as 3.0000000001 facilities
+	return Math.ceil(count - ROUNDING_EPSILON);
+}
+
+/** Share of the built facilities' capacity that the demand uses */
+export function getFacilityUtilization(facility: FacilityConfig): number {
+	const built = facility.builtCount ?? facility.count;
+	return built > 0 ? facility.count / built : 0;
+}
+
 export function calculateProliferatorConsumption(
 	recipeInputs: Array<{ itemId: number; count: number }>,
 	recipeTime: number,
@@ -124,16 +222,127 @@ export function calculateProliferatorConsumption(
 	};
 }
 
+export function calculateRecipeProliferatorConsumption(
+	recipe: RecipeData,
+	facility: FacilityConfig,
+	facilityCount: number,
+	proliferatorItemId: number,
+): ProliferatorConsumption | null {
+	if (recipe.type === "Fractionate") {
+		// One charge per converted item; sprayed items passing through keep theirs
+		return calculateProliferatorConsumption(
+			recipe.inputs.map((input) => ({ itemId: input.itemId, count: 1 })),
+			TICKS_PER_SECOND,
+			calculateRecipeOutputRate(recipe, 1, facility),
+			facility.modifier,
+			facilityCount,
+			proliferatorItemId,
+		);
+	}
+	return calculateProliferatorConsumption(
+		recipe.inputs,
+		recipe.timeSpend,
+		facility.speedMultiplier,
+		facility.modifier,
+		facilityCount,
+		proliferatorItemId,
+	);
+}
+
+/** Proliferator item a facility sprays with: the chosen one, or its level's */
+export function getProliferatorItemId(
+	facility: FacilityConfig,
+): number | undefined {
+	return (
+		facility.proliferatorItemId ??
+		PROLIFERATOR_ITEM_IDS[facility.modifier.level]
+	);
+}
+
+/**
+ * Proliferator an element's recipe uses up at `facilityCount`, along with the
+ * spray coaters its input belts need at `inputRates`.
+ */
+export function calculateElementProliferation(
+	recipe: RecipeData,
+	facility: FacilityConfig,
+	facilityCount: number,
+	inputRates: number[],
+): ProliferatorConsumption | undefined {
+	const proliferatorItemId = getProliferatorItemId(facility);
+	if (proliferatorItemId === undefined) return undefined;
+	const consumption = calculateRecipeProliferatorConsumption(
+		recipe,
+		facility,
+		facilityCount,
+		proliferatorItemId,
+	);
+	if (!consumption) return undefined;
+
+	const beltSpeed =
+		BELT_SPEEDS[facility.beltItemId ?? DEFAULT_BELT_ITEM_ID] ??
+		BELT_SPEEDS[DEFAULT_BELT_ITEM_ID];
+	return {
+		...consumption,
+		sprayCoaters: calculateSprayCoaters(inputRates, beltSpeed),
+	};
+}
+
 export function calculateMiningRate(miningTime: number): number {
 	return (1 / miningTime) * TICKS_PER_SECOND;
 }
 
+/**
+ * Output of one miner in items per second. Plans from before miners were
+ * modelled carry an abstract facility and keep the per-vein rate.
+ */
+export function calculateMinerRate(
+	source: MiningSource,
+	facility: FacilityConfig | null,
+	miningSpeed = 1,
+): number {
+	const veinRate = facility ? MINER_VEIN_RATES[facility.itemId] : undefined;
+	if (!facility || veinRate === undefined) {
+		return calculateMiningRate(source.miningTime);
+	}
+	return (
+		veinRate *
+		(source.veinsPerMiner ?? 1) *
+		facility.speedMultiplier *
+		miningSpeed
+	);
+}
+
+/** Miner choice of a mining element, falling back for pre-miner plans */
+export function getMiningConfig(
+	element: CalculationElement,
+	fallback: MiningConfig = DEFAULT_MINING_CONFIG,
+): MiningConfig {
+	if (
+		element.source?.type !== "mining" ||
+		!element.facility ||
+		MINER_VEIN_RATES[element.facility.itemId] === undefined
+	) {
+		return fallback;
+	}
+	return {
+		minerItemId: element.facility.itemId,
+		veinsPerMiner:
+			(element.source as MiningSource).veinsPerMiner ?? fallback.veinsPerMiner,
+		speedSetting: element.facility.speedMultiplier,
+	};
+}
+
 export function calculateExtractionRate(extractionSpeed: number): number {
 	return extractionSpeed;
 }
 
-export function calculateGatheringRate(): number {
-	return 1;
+export function calculateGatheringRate(gatheringSpeed: number): number {
+	return gatheringSpeed;
+}
+
+export function getNetRequiredRate(element: CalculationElement): number {
+	return Math.max(0, element.requiredRate - (element.byproductSupply ?? 0));
 }
 
 export function createBaseElement(
@@ -163,7 +372,11 @@ export function createFacilityConfig(
 	customFacilityId?: number,
 	customModifier?: ModifierConfig,
 ): FacilityConfig {
-	const facilityId = customFacilityId ?? defaults.facilities[recipeType] ?? 0;
+	const defaultId = defaults.facilities[recipeType] ?? 0;
+	const facilityId =
+		customFacilityId ??
+		context.getUnlockedFacility?.(defaultId, recipeType) ??
+		defaultId;
 	const facilityData = context.getFacilityData(facilityId);
 
 	return {
@@ -174,6 +387,20 @@ export function createFacilityConfig(
 	};
 }
 
+/**
+ * Facility with a modifier its recipe can run. Product mode on a recipe that
+ * can't make extra products falls back to speed mode at the same level.
+ */
+export function withValidModifier(
+	recipe: RecipeData,
+	facility: FacilityConfig,
+): FacilityConfig {
+	if (facility.modifier.mode !== "product" || !recipe.nonProductive) {
+		return facility;
+	}
+	return { ...facility, modifier: { ...facility.modifier, mode: "speed" } };
+}
+
 export function expandElementWithRecipe(
 	element: CalculationElement,
 	recipeId: number,
@@ -191,32 +418,32 @@ export function expandElementWithRecipe(
 		return element;
 	}
 
-	const facility = createFacilityConfig(recipe.type, context, defaults);
+	const facility = withValidModifier(
+		recipe,
+		createFacilityConfig(recipe.type, context, defaults),
+	);
 
-	const outputRate = calculateOutputRate(
+	const outputRate = calculateRecipeOutputRate(
+		recipe,
 		targetOutput.count,
-		recipe.timeSpend,
-		facility.speedMultiplier,
-		facility.modifier,
+		facility,
 	);
 
 	const facilitiesNeeded = calculateRequiredFacilities(
-		element.requiredRate,
+		getNetRequiredRate(element),
 		outputRate,
 	);
 	const actualRate = outputRate * facilitiesNeeded;
 
 	const inputs: string[] = [];
+	const inputRates: number[] = [];
 	const byproducts: Byproduct[] = [];
 
 	for (const input of recipe.inputs) {
 		const inputRate =
-			calculateInputRate(
-				input.count,
-				recipe.timeSpend,
-				facility.speedMultiplier,
-				facility.modifier,
-			) * facilitiesNeeded;
+			calculateRecipeInputRate(recipe, input.count, facility) *
+			facilitiesNeeded;
+		inputRates.push(inputRate);
 
 		const childElement = createBaseElement(
 			input.itemId,
@@ -231,12 +458,8 @@ export function expandElementWithRecipe(
 	for (const output of recipe.outputs) {
 		if (output.itemId !== element.itemId) {
 			const byproductRate =
-				calculateOutputRate(
-					output.count,
-					recipe.timeSpend,
-					facility.speedMultiplier,
-					facility.modifier,
-				) * facilitiesNeeded;
+				calculateRecipeOutputRate(recipe, output.count, facility) *
+				facilitiesNeeded;
 
 			byproducts.push({
 				itemId: output.itemId,
@@ -260,31 +483,44 @@ export function expandElementWithRecipe(
 		},
 		inputs,
 		byproducts,
+		proliferatorConsumption: calculateElementProliferation(
+			recipe,
+			facility,
+			facilitiesNeeded,
+			inputRates,
+		),
 	};
 }
 
 export function setElementToMining(
 	element: CalculationElement,
 	miningTime: number,
+	mining: MiningConfig = DEFAULT_MINING_CONFIG,
+	miningSpeed = 1,
 ): CalculationElement {
-	const rate = calculateMiningRate(miningTime);
+	const source: MiningSource = {
+		type: "mining",
+		veinId: 0,
+		miningTime,
+		veinsPerMiner: mining.veinsPerMiner,
+	};
+	const facility: FacilityConfig = {
+		itemId: mining.minerItemId,
+		count: 0,
+		// Only the Advanced Mining Machine has a speed setting
+		speedMultiplier:
+			mining.minerItemId === ADVANCED_MINER_ITEM_ID ? mining.speedSetting : 1,
+		modifier: { mode: "none", level: 0 },
+	};
+	const rate = calculateMinerRate(source, facility, miningSpeed);
 	if (rate <= 0) return element;
-	const facilitiesNeeded = element.requiredRate / rate;
+	const minersNeeded = getNetRequiredRate(element) / rate;
 
 	return {
 		...element,
-		actualRate: rate * facilitiesNeeded,
-		source: {
-			type: "mining",
-			veinId: 0,
-			miningTime,
-		} as MiningSource,
-		facility: {
-			itemId: 0,
-			count: facilitiesNeeded,
-			speedMultiplier: 1,
-			modifier: { mode: "none", level: 0 },
-		},
+		actualRate: rate * minersNeeded,
+		source,
+		facility: { ...facility, count: minersNeeded },
 		inputs: [],
 		byproducts: [],
 	};
@@ -293,10 +529,12 @@ export function setElementToMining(
 export function setElementToExtraction(
 	element: CalculationElement,
 	extractionSpeed: number,
+	facilityItemId = 0,
+	details: Partial<Omit<ExtractionSource, "type" | "extractionSpeed">> = {},
 ): CalculationElement {
 	const rate = calculateExtractionRate(extractionSpeed);
 	if (rate <= 0) return element;
-	const facilitiesNeeded = element.requiredRate / rate;
+	const facilitiesNeeded = getNetRequiredRate(element) / rate;
 
 	return {
 		...element,
@@ -304,11 +542,37 @@ export function setElementToExtraction(
 		source: {
 			type: "extraction",
 			themeId: 0,
-			extractionSpeed,
 			isGas: true,
+			...details,
+			extractionSpeed,
 		} as ExtractionSource,
 		facility: {
-			itemId: 0,
+			itemId: facilityItemId,
+			count: facilitiesNeeded,
+			speedMultiplier: 1,
+			modifier: { mode: "none", level: 0 },
+		},
+		inputs: [],
+		byproducts: [],
+	};
+}
+
+export function setElementToGathering(
+	element: CalculationElement,
+	gatheringSpeed: number,
+	facilityItemId: number,
+	details: Omit<GatheringSource, "type" | "gatheringSpeed">,
+): CalculationElement {
+	const rate = calculateGatheringRate(gatheringSpeed);
+	if (rate <= 0) return element;
+	const facilitiesNeeded = getNetRequiredRate(element) / rate;
+
+	return {
+		...element,
+		actualRate: rate * facilitiesNeeded,
+		source: { type: "gathering", ...details, gatheringSpeed },
+		facility: {
+			itemId: facilityItemId,
 			count: facilitiesNeeded,
 			speedMultiplier: 1,
 			modifier: { mode: "none", level: 0 },
@@ -345,17 +609,17 @@ export function setElementFacility(
 		count: 0,
 		speedMultiplier: facilitySpeedMultiplier,
 		modifier: element.facility?.modifier ?? { mode: "none", level: 0 },
+		beltItemId: element.facility?.beltItemId,
 	};
 
-	const outputRate = calculateOutputRate(
+	const outputRate = calculateRecipeOutputRate(
+		recipe,
 		targetOutput.count,
-		recipe.timeSpend,
-		facility.speedMultiplier,
-		facility.modifier,
+		facility,
 	);
 
 	const facilitiesNeeded = calculateRequiredFacilities(
-		element.requiredRate,
+		getNetRequiredRate(element),
 		outputRate,
 	);
 	const actualRate = outputRate * facilitiesNeeded;
@@ -365,12 +629,8 @@ export function setElementFacility(
 
 	for (const input of recipe.inputs) {
 		const inputRate =
-			calculateInputRate(
-				input.count,
-				recipe.timeSpend,
-				facility.speedMultiplier,
-				facility.modifier,
-			) * facilitiesNeeded;
+			calculateRecipeInputRate(recipe, input.count, facility) *
+			facilitiesNeeded;
 
 		const childElement = createBaseElement(
 			input.itemId,
@@ -384,12 +644,8 @@ export function setElementFacility(
 	for (const output of recipe.outputs) {
 		if (output.itemId !== element.itemId) {
 			const byproductRate =
-				calculateOutputRate(
-					output.count,
-					recipe.timeSpend,
-					facility.speedMultiplier,
-					facility.modifier,
-				) * facilitiesNeeded;
+				calculateRecipeOutputRate(recipe, output.count, facility) *
+				facilitiesNeeded;
 
 			byproducts.push({
 				itemId: output.itemId,
@@ -418,11 +674,19 @@ export function calculateResourceNeeds(
 	const mined = new Map<number, number>();
 	const extracted = new Map<number, number>();
 	const gathered = new Map<number, number>();
+	const visited = new Set<string>();
 
 	for (const target of targets) {
 		const rootElement = elements[target.rootElementId];
 		if (rootElement) {
-			collectResourceNeeds(rootElement, elements, mined, extracted, gathered);
+			collectResourceNeeds(
+				rootElement,
+				elements,
+				mined,
+				extracted,
+				gathered,
+				visited,
+			);
 		}
 	}
 
@@ -435,90 +699,259 @@ function collectResourceNeeds(
 	mined: Map<number, number>,
 	extracted: Map<number, number>,
 	gathered: Map<number, number>,
+	visited: Set<string>,
 ): void {
+	// Shared elements are only counted once
+	if (visited.has(element.id)) return;
+	visited.add(element.id);
+
 	if (!element.source) {
 		for (const childId of element.inputs) {
 			const child = elements[childId];
 			if (child) {
-				collectResourceNeeds(child, elements, mined, extracted, gathered);
+				collectResourceNeeds(
+					child,
+					elements,
+					mined,
+					extracted,
+					gathered,
+					visited,
+				);
 			}
 		}
 		return;
 	}
 
+	const netRate = getNetRequiredRate(element);
 	if (element.source.type === "mining") {
 		const current = mined.get(element.itemId) ?? 0;
-		mined.set(element.itemId, current + element.requiredRate);
+		mined.set(element.itemId, current + netRate);
 	} else if (element.source.type === "extraction") {
 		const current = extracted.get(element.itemId) ?? 0;
-		extracted.set(element.itemId, current + element.requiredRate);
+		extracted.set(element.itemId, current + netRate);
 	} else if (element.source.type === "gathering") {
 		const current = gathered.get(element.itemId) ?? 0;
-		gathered.set(element.itemId, current + element.requiredRate);
+		gathered.set(element.itemId, current + netRate);
 	}
 
 	for (const childId of element.inputs) {
 		const child = elements[childId];
 		if (child) {
-			collectResourceNeeds(child, elements, mined, extracted, gathered);
+			collectResourceNeeds(
+				child,
+				elements,
+				mined,
+				extracted,
+				gathered,
+				visited,
+			);
 		}
 	}
 }
 
+/** Work power of an element's facilities in watts */
+export function calculateElementPower(
+	element: CalculationElement,
+	workPower: number,
+): number {
+	if (!element.facility) return 0;
+	const { mode, level } = element.facility.modifier;
+	const sprayMultiplier =
+		mode === "none" ? 1 : (PROLIFERATOR_POWER_MULTIPLIERS[level] ?? 1);
+	return element.facility.count * workPower * sprayMultiplier;
+}
+
+interface FacilityTally {
+	count: number;
+	builtCount: number;
+	recipeType?: string;
+	power: number;
+	/** Exact counts per produced item, for per-item rounding */
+	countByItem: Map<number, number>;
+}
+
 export function calculateFacilitySummary(
 	targets: CalculationTarget[],
 	elements: Record<string, CalculationElement>,
+	getWorkPower: (facilityItemId: number) => number | undefined = () =>
+		undefined,
+	rounding: RoundingMode = "exact",
 ): FacilitySummary[] {
-	const facilityMap = new Map<number, { count: number; recipeType?: string }>();
+	const facilityMap = new Map<number, FacilityTally>();
+	const visited = new Set<string>();
 
 	for (const target of targets) {
 		const rootElement = elements[target.rootElementId];
 		if (rootElement) {
-			collectFacilityCounts(rootElement, elements, facilityMap);
+			collectFacilityCounts(
+				rootElement,
+				elements,
+				facilityMap,
+				visited,
+				getWorkPower,
+			);
 		}
 	}
 
 	return Array.from(facilityMap.entries()).map(([itemId, data]) => ({
 		itemId,
 		count: data.count,
+		builtCount:
+			rounding === "item"
+				? Array.from(data.countByItem.values()).reduce(
+						(sum, count) => sum + getBuiltFacilityCount(count, "element"),
+						0,
+					)
+				: data.builtCount,
 		recipeType: data.recipeType,
+		power: data.power,
 	}));
 }
 
 function collectFacilityCounts(
 	element: CalculationElement,
 	elements: Record<string, CalculationElement>,
-	facilityMap: Map<number, { count: number; recipeType?: string }>,
+	facilityMap: Map<number, FacilityTally>,
+	visited: Set<string>,
+	getWorkPower: (facilityItemId: number) => number | undefined,
 ): void {
-	if (!element.source || !element.facility) {
-		for (const childId of element.inputs) {
-			const child = elements[childId];
-			if (child) {
-				collectFacilityCounts(child, elements, facilityMap);
-			}
+	// Shared elements are only counted once
+	if (visited.has(element.id)) return;
+	visited.add(element.id);
+
+	// Facilities without an item stand in for sources from older plans
+	if (element.source && element.facility?.itemId) {
+		const { count } = element.facility;
+		const builtCount = element.facility.builtCount ?? count;
+		const power = calculateElementPower(
+			element,
+			getWorkPower(element.facility.itemId) ?? 0,
+		);
+		let tally = facilityMap.get(element.facility.itemId);
+		if (!tally) {
+			const recipeSource = element.source as RecipeSource;
+			tally = {
+				count: 0,
+				builtCount: 0,
+				recipeType: recipeSource.recipeType,
+				power: 0,
+				countByItem: new Map(),
+			};
+			facilityMap.set(element.facility.itemId, tally);
 		}
-		return;
+		tally.count += count;
+		tally.builtCount += builtCount;
+		tally.power += power;
+		tally.countByItem.set(
+			element.itemId,
+			(tally.countByItem.get(element.itemId) ?? 0) + count,
+		);
 	}
 
-	if (element.source.type === "recipe" && element.facility.itemId > 0) {
-		const current = facilityMap.get(element.facility.itemId);
-		if (current) {
-			current.count += element.facility.count;
-		} else {
-			const recipeSource = element.source as RecipeSource;
-			facilityMap.set(element.facility.itemId, {
-				count: element.facility.count,
-				recipeType: recipeSource.recipeType,
-			});
+	const sprayCoaters = element.proliferatorConsumption?.sprayCoaters ?? 0;
+	if (sprayCoaters > 0) {
+		let tally = facilityMap.get(SPRAY_COATER_ITEM_ID);
+		if (!tally) {
+			tally = { count: 0, builtCount: 0, power: 0, countByItem: new Map() };
+			facilityMap.set(SPRAY_COATER_ITEM_ID, tally);
 		}
+		tally.count += sprayCoaters;
+		tally.builtCount += sprayCoaters;
+		tally.power += sprayCoaters * (getWorkPower(SPRAY_COATER_ITEM_ID) ?? 0);
+		tally.countByItem.set(
+			element.itemId,
+			(tally.countByItem.get(element.itemId) ?? 0) + sprayCoaters,
+		);
 	}
 
 	for (const childId of element.inputs) {
 		const child = elements[childId];
 		if (child) {
-			collectFacilityCounts(child, elements, facilityMap);
+			collectFacilityCounts(
+				child,
+				elements,
+				facilityMap,
+				visited,
+				getWorkPower,
+			);
+		}
+	}
+}
+
+/**
+ * Proliferator items per second the plan's sprayed recipes use up, keyed by
+ * proliferator item. Worked out from the current facility counts, so it
+ * follows rebalancing.
+ */
+export function calculateProliferatorDemand(
+	targets: CalculationTarget[],
+	elements: Record<string, CalculationElement>,
+	context: Pick<CalculationContext, "getRecipeById">,
+): Map<number, number> {
+	const demand = new Map<number, number>();
+	const visited = new Set<string>();
+	const queue = targets.map((t) => t.rootElementId);
+
+	while (queue.length > 0) {
+		const id = queue.shift();
+		if (id === undefined || visited.has(id)) continue;
+		visited.add(id);
+		const element = elements[id];
+		if (!element) continue;
+		queue.push(...element.inputs);
+
+		const facility = element.facility;
+		if (element.source?.type !== "recipe" || !facility) continue;
+		if (facility.modifier.mode === "none") continue;
+		const recipe = context.getRecipeById(
+			(element.source as RecipeSource).recipeId,
+		);
+		if (!recipe) continue;
+
+		const proliferatorItemId = getProliferatorItemId(facility);
+		if (proliferatorItemId === undefined) continue;
+		const consumption = calculateRecipeProliferatorConsumption(
+			recipe,
+			facility,
+			facility.count,
+			proliferatorItemId,
+		);
+		if (consumption) {
+			demand.set(
+				consumption.itemId,
+				(demand.get(consumption.itemId) ?? 0) + consumption.itemsPerSecond,
+			);
+		}
+	}
+
+	return demand;
+}
+
+/** Dyson sphere power and graviton lenses the plan's gathering elements use */
+export function calculateGatheringSummary(
+	targets: CalculationTarget[],
+	elements: Record<string, CalculationElement>,
+): GatheringSummary {
+	const summary: GatheringSummary = { spherePower: 0, lensRate: 0 };
+	const visited = new Set<string>();
+	const queue = targets.map((t) => t.rootElementId);
+
+	while (queue.length > 0) {
+		const id = queue.shift();
+		if (id === undefined || visited.has(id)) continue;
+		visited.add(id);
+		const element = elements[id];
+		if (!element) continue;
+
+		if (element.source?.type === "gathering" && element.facility) {
+			const source = element.source as GatheringSource;
+			summary.spherePower += source.spherePower * element.facility.count;
+			summary.lensRate += source.lensRate * element.facility.count;
 		}
+		queue.push(...element.inputs);
 	}
+
+	return summary;
 }
 
 export function calculateRateBreakdown(
@@ -526,11 +959,12 @@ export function calculateRateBreakdown(
 	elements: Record<string, CalculationElement>,
 ): RateBreakdown[] {
 	const itemMap = new Map<number, { required: number; produced: number }>();
+	const visited = new Set<string>();
 
 	for (const target of targets) {
 		const rootElement = elements[target.rootElementId];
 		if (rootElement) {
-			collectRateBreakdown(rootElement, elements, itemMap);
+			collectRateBreakdown(rootElement, elements, itemMap, visited);
 		}
 	}
 
@@ -546,7 +980,15 @@ function collectRateBreakdown(
 	element: CalculationElement,
 	elements: Record<string, CalculationElement>,
 	itemMap: Map<number, { required: number; produced: number }>,
+	visited: Set<string>,
 ): void {
+	// Shared elements are only counted once
+	if (visited.has(element.id)) return;
+	visited.add(element.id);
+
+	// Loop demand is already part of the ancestor's required rate
+	if (element.loopOf) return;
+
 	const current = itemMap.get(element.itemId) ?? { required: 0, produced: 0 };
 	current.required += element.requiredRate;
 
@@ -568,7 +1010,7 @@ function collectRateBreakdown(
 	for (const childId of element.inputs) {
 		const child = elements[childId];
 		if (child) {
-			collectRateBreakdown(child, elements, itemMap);
+			collectRateBreakdown(child, elements, itemMap, visited);
 		}
 	}
 }
@@ -586,109 +1028,487 @@ export function recalculateSubtree(
 		visited.add(id);
 
 		const element = updates[id] ?? elements[id];
-		if (!element || !element.source) return;
+		if (!element) return;
 
-		let updated: CalculationElement;
+		const recalculated = recalculateElement(element, context);
+		if (!recalculated) return;
 
-		if (element.source.type === "recipe") {
-			const recipeSource = element.source as RecipeSource;
-			const recipe = context.getRecipeById(recipeSource.recipeId);
-			if (!recipe || !element.facility) return;
+		// Recalculate children's requiredRate based on new facility count
+		for (const childId of element.inputs) {
+			const child = updates[childId] ?? elements[childId];
+			if (!child) continue;
+			const inputRate = recalculated.inputRates.get(child.itemId);
+			if (inputRate === undefined) continue;
+			updates[childId] = { ...child, requiredRate: inputRate };
+		}
 
-			const targetOutput = recipe.outputs.find(
-				(o) => o.itemId === element.itemId,
-			);
-			if (!targetOutput) return;
+		updates[id] = recalculated.element;
 
-			const outputRate = calculateOutputRate(
-				targetOutput.count,
-				recipe.timeSpend,
-				element.facility.speedMultiplier,
-				element.facility.modifier,
-			);
+		// Recurse into children
+		for (const childId of element.inputs) {
+			walk(childId);
+		}
+	}
 
-			const facilitiesNeeded = calculateRequiredFacilities(
-				element.requiredRate,
-				outputRate,
+	walk(elementId);
+	return updates;
+}
+
+const LOOP_ITERATIONS = 20;
+const LOOP_EPSILON = 1e-9;
+
+/**
+ * Recalculate every element reachable from the targets, summing the demand of
+ * all parents for shared elements. Parents are processed before children.
+ *
+ * Loop elements (see `loopOf`) are fed by their ancestor, so the ancestor's
+ * demand is raised until the loop reaches a steady state.
+ */
+export function recalculateGraph(
+	targets: CalculationTarget[],
+	elements: Record<string, CalculationElement>,
+	context: CalculationContext,
+): Record<string, CalculationElement> {
+	const loops = Object.values(elements).filter(
+		(element) => element.loopOf && elements[element.loopOf],
+	);
+	const loopDemand = new Map<string, number>();
+	let result = propagateDemand(targets, elements, context, loopDemand);
+	if (loops.length === 0) return result;
+
+	for (let i = 0; i < LOOP_ITERATIONS; i++) {
+		const returned = new Map<string, number>();
+		for (const loop of loops) {
+			const ancestorId = loop.loopOf as string;
+			returned.set(
+				ancestorId,
+				(returned.get(ancestorId) ?? 0) + result[loop.id].requiredRate,
 			);
+		}
+
+		let settled = true;
+		for (const [ancestorId, returnedRate] of returned) {
+			const current = loopDemand.get(ancestorId) ?? 0;
+			const total = result[ancestorId].requiredRate;
+			const external = total - current;
+			// Loop demand grows linearly with the ancestor's output. A loop that
+			// consumes at least what it makes has no steady state and stays open.
+			const gain = total > 0 ? returnedRate / total : 0;
+			const next = gain < 1 ? (external * gain) / (1 - gain) : current;
+			if (Math.abs(next - current) > LOOP_EPSILON) settled = false;
+			loopDemand.set(ancestorId, next);
+		}
+
+		if (settled) break;
+		result = propagateDemand(targets, elements, context, loopDemand);
+	}
 
-			// Recalculate children's requiredRate based on new facility count
-			for (let i = 0; i < element.inputs.length; i++) {
-				const childId = element.inputs[i];
-				const child = updates[childId] ?? elements[childId];
-				if (!child) continue;
+	return result;
+}
 
-				const input = recipe.inputs[i];
-				if (!input) continue;
+function propagateDemand(
+	targets: CalculationTarget[],
+	elements: Record<string, CalculationElement>,
+	context: CalculationContext,
+	extraDemand: Map<string, number>,
+): Record<string, CalculationElement> {
+	const demand = new Map(extraDemand);
+	for (const target of targets) {
+		demand.set(
+			target.rootElementId,
+			(demand.get(target.rootElementId) ?? 0) + target.targetRate,
+		);
+	}
 
-				const inputRate =
-					calculateInputRate(
-						input.count,
-						recipe.timeSpend,
-						element.facility.speedMultiplier,
-						element.facility.modifier,
-					) * facilitiesNeeded;
+	const result = { ...elements };
+	for (const id of getTopologicalOrder(targets, elements)) {
+		const element = { ...result[id], requiredRate: demand.get(id) ?? 0 };
+		const recalculated = recalculateElement(element, context);
+		result[id] = recalculated?.element ?? element;
+		if (!recalculated) continue;
+
+		for (const childId of new Set(element.inputs)) {
+			const child = result[childId];
+			if (!child) continue;
+			demand.set(
+				childId,
+				(demand.get(childId) ?? 0) +
+					(recalculated.inputRates.get(child.itemId) ?? 0),
+			);
+		}
+	}
+
+	return result;
+}
 
-				updates[childId] = { ...child, requiredRate: inputRate };
+function getTopologicalOrder(
+	targets: CalculationTarget[],
+	elements: Record<string, CalculationElement>,
+): string[] {
+	const reachable = new Set<string>();
+	const stack = targets.map((t) => t.rootElementId);
+	while (stack.length > 0) {
+		const id = stack.pop() as string;
+		if (reachable.has(id) || !elements[id]) continue;
+		reachable.add(id);
+		stack.push(...elements[id].inputs);
+	}
+
+	const inDegree = new Map<string, number>();
+	for (const id of reachable) {
+		for (const childId of new Set(elements[id].inputs)) {
+			if (reachable.has(childId)) {
+				inDegree.set(childId, (inDegree.get(childId) ?? 0) + 1);
 			}
+		}
+	}
 
-			const facility = element.facility;
-			const byproducts = recipe.outputs
-				.filter((o) => o.itemId !== element.itemId)
-				.map((output) => ({
-					itemId: output.itemId,
-					rate:
-						calculateOutputRate(
-							output.count,
-							recipe.timeSpend,
-							facility.speedMultiplier,
-							facility.modifier,
-						) * facilitiesNeeded,
-					consumedBy: [] as string[],
-				}));
-
-			updated = {
+	const order: string[] = [];
+	const queue = Array.from(reachable).filter((id) => !inDegree.get(id));
+	while (queue.length > 0) {
+		const id = queue.shift() as string;
+		order.push(id);
+		for (const childId of new Set(elements[id].inputs)) {
+			const remaining = (inDegree.get(childId) ?? 0) - 1;
+			inDegree.set(childId, remaining);
+			if (remaining === 0) queue.push(childId);
+		}
+	}
+
+	// Elements on a cycle never reach zero in-degree; keep them in the result
+	const ordered = new Set(order);
+	for (const id of reachable) {
+		if (!ordered.has(id)) order.push(id);
+	}
+	return order;
+}
+
+function recalculateElement(
+	element: CalculationElement,
+	context: CalculationContext,
+): {
+	element: CalculationElement;
+	// Demand per input item at the new facility count
+	inputRates: Map<number, number>;
+} | null {
+	if (!element.source) return null;
+
+	if (element.source.type === "recipe") {
+		const recipeSource = element.source as RecipeSource;
+		const recipe = context.getRecipeById(recipeSource.recipeId);
+		if (!recipe || !element.facility) return null;
+
+		const targetOutput = recipe.outputs.find(
+			(o) => o.itemId === element.itemId,
+		);
+		if (!targetOutput) return null;
+
+		const facility = withValidModifier(recipe, element.facility);
+		const outputRate = calculateRecipeOutputRate(
+			recipe,
+			targetOutput.count,
+			facility,
+		);
+
+		const facilitiesNeeded = calculateRequiredFacilities(
+			getNetRequiredRate(element),
+			outputRate,
+		);
+		const builtCount = getBuiltFacilityCount(
+			facilitiesNeeded,
+			element.rounding ?? context.rounding?.mode ?? "exact",
+		);
+		// Propagating runs every built facility at full speed, so the
+		// surplus shows up as overproduction instead of idle capacity
+		const runningCount = context.rounding?.propagate
+			? builtCount
+			: facilitiesNeeded;
+
+		const inputRates = new Map<number, number>();
+		for (const input of recipe.inputs) {
+			const inputRate =
+				calculateRecipeInputRate(recipe, input.count, facility) * runningCount;
+			inputRates.set(
+				input.itemId,
+				(inputRates.get(input.itemId) ?? 0) + inputRate,
+			);
+		}
+
+		const byproducts = recipe.outputs
+			.filter((o) => o.itemId !== element.itemId)
+			.map((output) => ({
+				itemId: output.itemId,
+				rate:
+					calculateRecipeOutputRate(recipe, output.count, facility) *
+					runningCount,
+				consumedBy: [] as string[],
+			}));
+
+		return {
+			element: {
 				...element,
-				actualRate: outputRate * facilitiesNeeded,
-				facility: { ...facility, count: facilitiesNeeded },
+				actualRate: outputRate * runningCount,
+				facility: { ...facility, count: runningCount, builtCount },
 				byproducts,
-			};
-		} else if (element.source.type === "mining") {
-			const miningSource = element.source as MiningSource;
-			const rate = calculateMiningRate(miningSource.miningTime);
-			const facilitiesNeeded = rate > 0 ? element.requiredRate / rate : 0;
-			updated = {
-				...element,
-				actualRate: rate * facilitiesNeeded,
-				facility: element.facility
-					? { ...element.facility, count: facilitiesNeeded }
-					: null,
-			};
-		} else if (element.source.type === "extraction") {
-			const extractionSource = element.source as ExtractionSource;
-			const rate = calculateExtractionRate(extractionSource.extractionSpeed);
-			const facilitiesNeeded = rate > 0 ? element.requiredRate / rate : 0;
-			updated = {
-				...element,
-				actualRate: rate * facilitiesNeeded,
-				facility: element.facility
-					? { ...element.facility, count: facilitiesNeeded }
-					: null,
-			};
-		} else {
-			return;
+				proliferatorConsumption: calculateElementProliferation(
+					recipe,
+					facility,
+					runningCount,
+					Array.from(inputRates.values()),
+				),
+			},
+			inputRates,
+		};
+	}
+
+	let rate: number;
+	if (element.source.type === "mining") {
+		rate = calculateMinerRate(
+			element.source as MiningSource,
+			element.facility,
+			context.miningSpeed,
+		);
+	} else if (element.source.type === "extraction") {
+		rate = calculateExtractionRate(
+			(element.source as ExtractionSource).extractionSpeed,
+		);
+	} else if (element.source.type === "gathering") {
+		rate = calculateGatheringRate(
+			(element.source as GatheringSource).gatheringSpeed,
+		);
+	} else {
+		return null;
+	}
+
+	const facilitiesNeeded = rate > 0 ? getNetRequiredRate(element) / rate : 0;
+	return {
+		element: {
+			...element,
+			actualRate: rate * facilitiesNeeded,
+			facility: element.facility
+				? { ...element.facility, count: facilitiesNeeded }
+				: null,
+		},
+		inputRates: new Map(),
+	};
+}
+
+/**
+ * Merge elements with the same item and source into one element with several
+ * parents, so identical demand across targets is produced in one place.
+ */
+export function mergeSharedElements(
+	targets: CalculationTarget[],
+	elements: Record<string, CalculationElement>,
+): {
+	elements: Record<string, CalculationElement>;
+	rootElementIds: Record<string, string>;
+} {
+	const canonicalByKey = new Map<string, string>();
+	const mergedInto = new Map<string, string>();
+	const queue = targets.map((t) => t.rootElementId);
+
+	while (queue.length > 0) {
+		const id = queue.shift() as string;
+		const element = elements[id];
+		if (mergedInto.has(id) || !element) continue;
+
+		const key = getMergeKey(element, mergedInto);
+		const canonicalId = canonicalByKey.get(key);
+		if (canonicalId) {
+			// Same recipe, so its inputs duplicate the canonical element's inputs
+			mergedInto.set(id, canonicalId);
+			continue;
 		}
 
-		updates[id] = updated;
+		canonicalByKey.set(key, id);
+		mergedInto.set(id, id);
+		queue.push(...element.inputs);
+	}
 
-		// Recurse into children
+	const merged: Record<string, CalculationElement> = {};
+	for (const id of canonicalByKey.values()) {
+		const element = elements[id];
+		merged[id] = {
+			...element,
+			...(element.loopOf
+				? { loopOf: mergedInto.get(element.loopOf) ?? element.loopOf }
+				: {}),
+			inputs: Array.from(
+				new Set(
+					element.inputs
+						.map((childId) => mergedInto.get(childId))
+						.filter((childId): childId is string => !!childId),
+				),
+			),
+			parentIds: [],
+		};
+	}
+
+	for (const element of Object.values(merged)) {
 		for (const childId of element.inputs) {
-			walk(childId);
+			merged[childId].parentIds.push(element.id);
 		}
 	}
 
-	walk(elementId);
-	return updates;
+	const rootElementIds: Record<string, string> = {};
+	for (const target of targets) {
+		rootElementIds[target.id] =
+			mergedInto.get(target.rootElementId) ?? target.rootElementId;
+	}
+
+	// Shared elements sit at the shallowest depth they are used at
+	const depthQueue = Array.from(new Set(Object.values(rootElementIds))).filter(
+		(id) => merged[id],
+	);
+	const queued = new Set(depthQueue);
+	for (const id of depthQueue) merged[id].depth = 0;
+	while (depthQueue.length > 0) {
+		const element = merged[depthQueue.shift() as string];
+		for (const childId of element.inputs) {
+			if (queued.has(childId)) continue;
+			queued.add(childId);
+			merged[childId].depth = element.depth + 1;
+			depthQueue.push(childId);
+		}
+	}
+
+	return { elements: merged, rootElementIds };
+}
+
+function getMergeKey(
+	element: CalculationElement,
+	mergedInto: Map<string, string>,
+): string {
+	if (element.loopOf) {
+		const ancestorId = mergedInto.get(element.loopOf) ?? element.loopOf;
+		return `${element.itemId}:loop:${ancestorId}`;
+	}
+	const source = element.source;
+	if (source?.type === "recipe") {
+		return `${element.itemId}:recipe:${(source as RecipeSource).recipeId}`;
+	}
+	return `${element.itemId}:${source?.type ?? "none"}`;
+}
+
+const BYPRODUCT_ITERATIONS = 20;
+const BYPRODUCT_EPSILON = 1e-9;
+
+/**
+ * Feed byproducts to other elements that need the same item and shrink those
+ * consumers' own production. Repeats until the allocation settles, since a
+ * smaller consumer can in turn produce fewer byproducts.
+ */
+export function allocateByproducts(
+	targets: CalculationTarget[],
+	elements: Record<string, CalculationElement>,
+	context: CalculationContext,
+): Record<string, CalculationElement> {
+	let current = assignByproductSupply(targets, elements);
+
+	for (let i = 0; i < BYPRODUCT_ITERATIONS; i++) {
+		const next = assignByproductSupply(
+			targets,
+			recalculateGraph(targets, current, context),
+		);
+		const settled = Object.values(next).every(
+			(element) =>
+				Math.abs(
+					(element.byproductSupply ?? 0) -
+						(current[element.id]?.byproductSupply ?? 0),
+				) < BYPRODUCT_EPSILON,
+		);
+		current = next;
+		if (settled) break;
+	}
+
+	return current;
+}
+
+function assignByproductSupply(
+	targets: CalculationTarget[],
+	elements: Record<string, CalculationElement>,
+): Record<string, CalculationElement> {
+	const order: string[] = [];
+	const seen = new Set<string>();
+	const queue = targets.map((t) => t.rootElementId);
+	while (queue.length > 0) {
+		const id = queue.shift() as string;
+		if (seen.has(id) || !elements[id]) continue;
+		seen.add(id);
+		order.push(id);
+		queue.push(...elements[id].inputs);
+	}
+
+	const supply = new Map<string, number>();
+	const allocations = new Map<string, Byproduct[]>();
+
+	for (const producerId of order) {
+		const producer = elements[producerId];
+		if (producer.byproducts.length === 0) continue;
+
+		// Feeding an ancestor would make the producer depend on its own output
+		const ancestors = collectAncestorIds(producerId, elements);
+
+		allocations.set(
+			producerId,
+			producer.byproducts.map((byproduct) => {
+				let remaining = byproduct.rate;
+				const consumedBy: string[] = [];
+				const consumedRates: Record<string, number> = {};
+
+				for (const consumerId of order) {
+					if (remaining <= BYPRODUCT_EPSILON) break;
+					const consumer = elements[consumerId];
+					if (
+						consumer.itemId !== byproduct.itemId ||
+						consumerId === producerId ||
+						ancestors.has(consumerId)
+					) {
+						continue;
+					}
+
+					const supplied = supply.get(consumerId) ?? 0;
+					const given = Math.min(remaining, consumer.requiredRate - supplied);
+					if (given <= BYPRODUCT_EPSILON) continue;
+
+					supply.set(consumerId, supplied + given);
+					consumedBy.push(consumerId);
+					consumedRates[consumerId] = given;
+					remaining -= given;
+				}
+
+				return { ...byproduct, consumedBy, consumedRates };
+			}),
+		);
+	}
+
+	const result: Record<string, CalculationElement> = {};
+	for (const [id, element] of Object.entries(elements)) {
+		const byproductSupply = supply.get(id);
+		const { byproductSupply: _previous, ...rest } = element;
+		result[id] = {
+			...rest,
+			byproducts: allocations.get(id) ?? element.byproducts,
+			...(byproductSupply ? { byproductSupply } : {}),
+		};
+	}
+	return result;
+}
+
+function collectAncestorIds(
+	elementId: string,
+	elements: Record<string, CalculationElement>,
+): Set<string> {
+	const ancestors = new Set<string>();
+	const stack = [...(elements[elementId]?.parentIds ?? [])];
+	while (stack.length > 0) {
+		const id = stack.pop() as string;
+		if (ancestors.has(id)) continue;
+		ancestors.add(id);
+		stack.push(...(elements[id]?.parentIds ?? []));
+	}
+	return ancestors;
 }
 
 export function flattenGraph(
@@ -1,6 +1,7 @@
 import buildingDetailsData from "../../assets/building-details.json" with {
 	type: "json",
 };
+import { DSPData } from "./dsp-data";
 
 interface BuildingDetails {
 	name: string;
@@ -11,6 +12,36 @@ interface BuildingDetails {
 	imageName: string;
 }
 
+/** Stats parsed from their wiki strings, in W, J, m, hp and per-second units */
+export interface BuildingStats {
+	gridSize?: { width: number; depth: number };
+	stackSize?: number;
+	workPower?: number;
+	idlePower?: number;
+	generationPower?: number;
+	maxChargingPower?: number;
+	energyCapacity?: number;
+	productionSpeed?: number;
+	researchSpeed?: number;
+	gatheringSpeed?: number;
+	transportSpeed?: number;
+	sortingSpeed?: number;
+	durability?: number;
+	fireRate?: number;
+	dps?: number;
+	groundRange?: number;
+	spaceRange?: number;
+}
+
+export interface BuildingReference {
+	name: string;
+	category: string;
+	description: string;
+	wikiUrl: string;
+	itemId: number | undefined;
+	stats: BuildingStats;
+}
+
 interface BuildingDetailsData {
 	scraped_at: string;
 	total_buildings: number;
@@ -40,6 +71,19 @@ export class BuildingDetailsService {
 		"Oil Refinery": 2308,
 		"Miniature Particle Collider": 2310,
 		Fractionator: 2314,
+		"Mining Machine": 2301,
+		"Advanced Mining Machine": 2316,
+		"Water Pump": 2306,
+		"Oil Extractor": 2307,
+		"Spray Coater": 2313,
+		"Wind Turbine": 2203,
+		"Thermal Power Plant": 2204,
+		"Solar Panel": 2205,
+		"Ray Receiver": 2208,
+		"Artificial Star": 2210,
+		"Mini Fusion Power Station": 2211,
+		"Geothermal Power Station": 2213,
+		"Full Accumulator": 2207,
 	};
 
 	// Map recipe types to their facility categories
@@ -85,6 +129,180 @@ export class BuildingDetailsService {
 		return undefined;
 	}
 
+	/**
+	 * Get power draw while working in watts
+	 */
+	static getWorkPower(itemId: number): number | undefined {
+		const building = BuildingDetailsService.getBuildingByItemId(itemId);
+		return BuildingDetailsService.parsePower(
+			building?.stats["Work Consumption"],
+		);
+	}
+
+	/**
+	 * Get power draw while idle in watts
+	 */
+	static getIdlePower(itemId: number): number | undefined {
+		const building = BuildingDetailsService.getBuildingByItemId(itemId);
+		return BuildingDetailsService.parsePower(
+			building?.stats["Idle Consumption"],
+		);
+	}
+
+	/**
+	 * Get power output of a generator in watts
+	 */
+	static getGenerationPower(itemId: number): number | undefined {
+		const building = BuildingDetailsService.getBuildingByItemId(itemId);
+		return BuildingDetailsService.parsePower(
+			building?.stats.Power ?? building?.stats["Basic Generation"],
+		);
+	}
+
+	/**
+	 * Get the fixed gathering speed in items per second before mining
+	 * research, such as "50 * Mining speed/min" for the Water Pump
+	 */
+	static getGatheringSpeed(itemId: number): number | undefined {
+		const building = BuildingDetailsService.getBuildingByItemId(itemId);
+		const match = building?.stats["Gathering Speed"]?.match(
+			/^([\d.]+)\s*\*\s*Mining speed\s*\/min$/,
+		);
+		return match ? parseFloat(match[1]) / 60 : undefined;
+	}
+
+	/**
+	 * Get a lab's hashes per second before research speed upgrades, such as
+	 * "60 Hash/s" for the Matrix Lab
+	 */
+	static getResearchSpeed(itemId: number): number | undefined {
+		const building = BuildingDetailsService.getBuildingByItemId(itemId);
+		const match =
+			building?.stats["Research Speed"]?.match(/^([\d.]+)\s*Hash\/s$/);
+		return match ? parseFloat(match[1]) : undefined;
+	}
+
+	/**
+	 * Get all power generators with their output, weakest first
+	 */
+	static getGenerators(): Array<{
+		itemId: number;
+		name: string;
+		power: number;
+	}> {
+		const generators: Array<{ itemId: number; name: string; power: number }> =
+			[];
+
+		for (const [name, itemId] of Object.entries(
+			BuildingDetailsService.buildingNameToItemId,
+		)) {
+			const building = BuildingDetailsService.getBuildingByItemId(itemId);
+			if (building?.category !== "Power Facility") continue;
+			const power = BuildingDetailsService.getGenerationPower(itemId);
+			if (power !== undefined) {
+				generators.push({ itemId, name, power });
+			}
+		}
+
+		return generators.sort((a, b) => a.power - b.power);
+	}
+
+	// Stats read like "420 kW", "2.94 MW" or "9000 W"
+	private static parsePower(value: string | undefined): number | undefined {
+		const match = value?.match(/([\d.]+)\s*(W|kW|MW|GW)/);
+		if (!match) return undefined;
+		const units: Record<string, number> = { W: 1, kW: 1e3, MW: 1e6, GW: 1e9 };
+		return parseFloat(match[1]) * units[match[2]];
+	}
+
+	// Stats read like "540.0 MJ" or "12.0 GJ"
+	private static parseEnergy(value: string | undefined): number | undefined {
+		const match = value?.match(/([\d.]+)\s*(J|kJ|MJ|GJ)/);
+		if (!match) return undefined;
+		const units: Record<string, number> = { J: 1, kJ: 1e3, MJ: 1e6, GJ: 1e9 };
+		return parseFloat(match[1]) * units[match[2]];
+	}
+
+	// Ranges like "12 - 58 m" or "1 (base) - 6 (max upg)" read as their maximum
+	private static parseNumber(value: string | undefined): number | undefined {
+		const numbers = value?.match(/[\d.]+/g);
+		return numbers ? parseFloat(numbers[numbers.length - 1]) : undefined;
+	}
+
+	// Grid sizes read like "3×3", or "1×1 - 1×3" for the largest footprint
+	private static parseGridSize(
+		value: string | undefined,
+	): BuildingStats["gridSize"] {
+		const sizes = [...(value?.matchAll(/(\d+)×(\d+)/g) ?? [])];
+		const largest = sizes.at(-1);
+		return largest
+			? { width: Number(largest[1]), depth: Number(largest[2]) }
+			: undefined;
+	}
+
+	private static parseStats(building: BuildingDetails): BuildingStats {
+		const { stats } = building;
+		const parseNumber = BuildingDetailsService.parseNumber;
+		const parsePower = BuildingDetailsService.parsePower;
+		const gathering = stats["Gathering Speed"]?.match(
+			/^([\d.]+)\s*\*\s*Mining speed\s*\/min$/,
+		);
+		return {
+			gridSize: BuildingDetailsService.parseGridSize(stats["Grid Size"]),
+			stackSize: parseNumber(stats["Stack Size"]),
+			workPower: parsePower(stats["Work Consumption"]),
+			idlePower: parsePower(stats["Idle Consumption"]),
+			generationPower: parsePower(stats.Power ?? stats["Basic Generation"]),
+			maxChargingPower: parsePower(stats["Max Charging Power"]),
+			energyCapacity: BuildingDetailsService.parseEnergy(
+				stats.Accumulated ?? stats.Energy,
+			),
+			productionSpeed: parseNumber(stats["Production Speed"]),
+			researchSpeed: parseNumber(stats["Research Speed"]),
+			gatheringSpeed: gathering ? parseFloat(gathering[1]) / 60 : undefined,
+			transportSpeed: parseNumber(
+				stats["Transport Speed"] ?? stats.DeliverySpeed,
+			),
+			sortingSpeed: parseNumber(stats["Sorting Speed"]),
+			// The wiki misspells it on some turrets
+			durability: parseNumber(stats.Durability ?? stats.Durabilty),
+			fireRate: parseNumber(stats["Fire Rate"]),
+			dps: parseNumber(stats.DPS),
+			groundRange: parseNumber(stats["Range of Ground Defense"]),
+			spaceRange: parseNumber(stats["Range of Space Defense"]),
+		};
+	}
+
+	/**
+	 * Get every building with its stats parsed, in wiki order. Item ids come
+	 * from the facility map, else from the item of the same name.
+	 */
+	static getBuildings(): BuildingReference[] {
+		const itemIdsByName = new Map(
+			DSPData.items.map((item) => [item.Name, item.ID]),
+		);
+		return BuildingDetailsService.data.buildings.map((building) => ({
+			name: building.name,
+			category: building.category,
+			description: building.description,
+			wikiUrl: building.wikiUrl,
+			itemId:
+				BuildingDetailsService.buildingNameToItemId[building.name] ??
+				itemIdsByName.get(building.name),
+			stats: BuildingDetailsService.parseStats(building),
+		}));
+	}
+
+	/**
+	 * Get the recipe types a building category runs, such as "Smelt" for
+	 * "Smelting Facility"
+	 */
+	static getRecipeTypesForCategory(category: string): string[] {
+		return Object.entries(BuildingDetailsService.recipeTypeCategories)
+			.filter(([, categories]) => categories.includes(category))
+			.map(([recipeType]) => recipeType);
+	}
+
 	/**
 	 * Get all facilities for a recipe type with their speed multipliers
 	 */
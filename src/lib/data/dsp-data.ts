@@ -1,5 +1,25 @@
 import protoSetsData from "../../assets/protosets.json" with { type: "json" };
-import type { Item, ProtoSets, Recipe, Tech, Theme, Vein } from "./models";
+import type {
+	Item,
+	ProtoSets,
+	Recipe,
+	RecipeType,
+	Tech,
+	Theme,
+	Vein,
+} from "./models";
+
+// Unset criteria match every recipe; the set flags only narrow when true
+export interface RecipeFilter {
+	type?: RecipeType;
+	inputItemId?: number;
+	outputItemId?: number;
+	handcraft?: boolean;
+	productive?: boolean;
+	fluid?: boolean;
+	buildable?: boolean;
+	entity?: boolean;
+}
 
 // biome-ignore lint/complexity/noStaticOnlyClass: Data service class by design
 export class DSPData {
@@ -118,19 +138,46 @@ export class DSPData {
 		{} as Record<number, Set<number>>,
 	);
 
+	// Upgrade techs start at this id and unlock no recipes
+	private static upgradeTechIdStart = 2000;
+
+	static mainTechs: Tech[] = this.techs.filter(
+		(tech) => tech.ID < this.upgradeTechIdStart,
+	);
+
+	// Tech unlocking each recipe; recipes missing here are known from the start
+	static recipeUnlockedBy: Record<number, number> = this.techs.reduce(
+		(acc, tech) => {
+			for (const recipeId of tech.UnlockRecipes) acc[recipeId] = tech.ID;
+			return acc;
+		},
+		{} as Record<number, number>,
+	);
+
+	// Crude oil seeps are tapped by Oil Extractors instead of mined
+	private static oilSeepVeinId = 7;
+
+	static crudeOilItemId: number | undefined = this.veins.find(
+		(vein) => vein.ID === this.oilSeepVeinId,
+	)?.MiningItem;
+
 	static canBeExtracted: Record<number, number> = this.themes.reduce(
 		(acc, theme) => {
 			theme.GasItems.forEach((itemId, index) => {
 				acc[itemId] = Math.max(theme.GasSpeeds[index], acc[itemId] ?? 0);
 			});
-			acc[theme.WaterItemId] = 1;
+			// Themes without a pumpable ocean use 0, lava and the like negative ids
+			if (theme.WaterItemId > 0) acc[theme.WaterItemId] = 1;
 			return acc;
 		},
-		{} as Record<number, number>,
+		this.crudeOilItemId !== undefined
+			? ({ [this.crudeOilItemId]: 1 } as Record<number, number>)
+			: ({} as Record<number, number>),
 	);
 
 	static canBeMined: Record<number, number> = this.veins.reduce(
 		(acc, vein) => {
+			if (vein.ID === this.oilSeepVeinId) return acc;
 			acc[vein.MiningItem] = vein.MiningTime;
 			return acc;
 		},
@@ -167,6 +214,23 @@ export class DSPData {
 		return DSPData.themesById[id];
 	}
 
+	/** Gas and ice giant themes whose orbital collectors gather the item */
+	static getGasGiantThemes(itemId: number): Theme[] {
+		return DSPData.themes.filter((theme) => theme.GasItems.includes(itemId));
+	}
+
+	/** Planet themes whose oceans a Water Pump can draw the item from */
+	static getWaterThemes(itemId: number): Theme[] {
+		return DSPData.themes.filter((theme) => theme.WaterItemId === itemId);
+	}
+
+	/** Planet themes where crude oil seeps generate */
+	static getOilThemes(): Theme[] {
+		return DSPData.themes.filter(
+			(theme) => (theme.VeinSpot[DSPData.oilSeepVeinId - 1] ?? 0) > 0,
+		);
+	}
+
 	static getVeinById(id: number): Vein | undefined {
 		return DSPData.veinsById[id];
 	}
@@ -175,6 +239,32 @@ export class DSPData {
 		return DSPData.producedVia[itemId] ?? [];
 	}
 
+	/** Recipes taking the item as an input, looked up through relatedRecipes */
+	static getRecipesConsuming(itemId: number): Recipe[] {
+		return Array.from(DSPData.relatedRecipes[itemId] ?? [])
+			.map((recipeId) => DSPData.recipesById[recipeId])
+			.filter((recipe) => recipe.Items.includes(itemId));
+	}
+
+	/** Recipes matching every criterion the filter sets */
+	static filterRecipes(filter: RecipeFilter): Recipe[] {
+		return DSPData.recipes.filter(
+			(recipe) =>
+				(filter.type === undefined || recipe.Type === filter.type) &&
+				(filter.inputItemId === undefined ||
+					recipe.Items.includes(filter.inputItemId)) &&
+				(filter.outputItemId === undefined ||
+					recipe.Results.includes(filter.outputItemId)) &&
+				(filter.handcraft === undefined ||
+					recipe.Handcraft === filter.handcraft) &&
+				(filter.productive === undefined ||
+					DSPData.canRecipeUseProductMode(recipe.ID) === filter.productive) &&
+				(!filter.fluid || DSPData.fluidRecipes.has(recipe.ID)) &&
+				(!filter.buildable || DSPData.buildableRecipes.has(recipe.ID)) &&
+				(!filter.entity || DSPData.entityRecipes.has(recipe.ID)),
+		);
+	}
+
 	static getAlternativeRecipes(itemId: number): number[] {
 		return DSPData.alternativeRecipes[itemId] ?? [];
 	}
@@ -199,6 +289,57 @@ export class DSPData {
 		return itemId in DSPData.canBeExtracted;
 	}
 
+	/**
+	 * Whether proliferators can add extra products to a recipe. The game rules
+	 * it out for NonProductive recipes and for any input that isn't Productive.
+	 */
+	static canRecipeUseProductMode(recipeId: number): boolean {
+		const recipe = DSPData.getRecipeById(recipeId);
+		if (!recipe || recipe.NonProductive) return false;
+		return recipe.Items.every(
+			(itemId) => DSPData.getItemById(itemId)?.Productive !== false,
+		);
+	}
+
+	/** Recipes known from the start plus those the completed techs unlock */
+	static getUnlockedRecipeIds(completedTechIds: Iterable<number>): Set<number> {
+		const completed = new Set(completedTechIds);
+		return new Set(
+			DSPData.recipes
+				.filter((recipe) => {
+					const techId = DSPData.recipeUnlockedBy[recipe.ID];
+					return techId === undefined || completed.has(techId);
+				})
+				.map((recipe) => recipe.ID),
+		);
+	}
+
+	/** An upgrade and the techs that follow it at consecutive ids */
+	static getTechSeries(firstTechId: number): Tech[] {
+		const series: Tech[] = [];
+		for (
+			let tech = DSPData.getTechById(firstTechId);
+			tech;
+			tech = DSPData.getTechById(tech.ID + 1)
+		) {
+			series.push(tech);
+		}
+		return series;
+	}
+
+	/** Every tech that has to be researched before `techId`, nearest first */
+	static getTechPrerequisites(techId: number): number[] {
+		const prerequisites: number[] = [];
+		const queue = [...(DSPData.getTechById(techId)?.PreTechs ?? [])];
+		while (queue.length > 0) {
+			const id = queue.shift();
+			if (id === undefined || prerequisites.includes(id)) continue;
+			prerequisites.push(id);
+			queue.push(...(DSPData.getTechById(id)?.PreTechs ?? []));
+		}
+		return prerequisites;
+	}
+
 	static getMiningTime(itemId: number): number | undefined {
 		return DSPData.canBeMined[itemId];
 	}
@@ -206,4 +347,11 @@ export class DSPData {
 	static getExtractionSpeed(itemId: number): number | undefined {
 		return DSPData.canBeExtracted[itemId];
 	}
+
+	// fuelType is a bit mask matched against Item.FuelType
+	static getFuelItems(fuelType: number): Item[] {
+		return DSPData.items.filter(
+			(item) => item.HeatValue > 0 && (item.FuelType & fuelType) !== 0,
+		);
+	}
 }
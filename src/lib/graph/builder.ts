@@ -1,12 +1,21 @@
 import type { Edge, Node } from "@xyflow/react";
 import type {
+	Byproduct,
 	CalculationElement,
 	CalculationTarget,
 	ExtractionSource,
+	GatheringSource,
 	MiningSource,
 	RecipeSource,
 } from "../calculator/models";
-import { TICKS_PER_SECOND } from "../calculator/models";
+import { DEFAULT_BELT_ITEM_ID, TICKS_PER_SECOND } from "../calculator/models";
+import {
+	calculateElementPower,
+	calculateFractionation,
+	calculateInputRate,
+	getNetRequiredRate,
+} from "../calculator/utils";
+import { BuildingDetailsService } from "../data/building-details-service";
 import { DSPData } from "../data/dsp-data";
 
 const MINING_NODE_WIDTH = 180;
@@ -16,6 +25,7 @@ const Y_SPACING = 360;
 const ROOT_START_X = 100;
 const ROOT_START_Y = 100;
 const ROOT_GAP = 160;
+const SURPLUS_EPSILON = 1e-6;
 
 function getNodeWidth(
 	element: CalculationElement,
@@ -23,7 +33,8 @@ function getNodeWidth(
 ): number {
 	if (
 		element.source?.type === "mining" ||
-		element.source?.type === "extraction"
+		element.source?.type === "extraction" ||
+		element.source?.type === "gathering"
 	) {
 		return MINING_NODE_WIDTH;
 	}
@@ -54,7 +65,9 @@ function calculateSubtreeWidths(
 	}
 	visiting.add(elementId);
 
-	const validChildren = element.inputs.filter((id) => elements[id]);
+	const validChildren = element.inputs.filter(
+		(id) => elements[id] && !elements[id].loopOf,
+	);
 	if (validChildren.length === 0) {
 		widths.set(elementId, nodeWidth);
 		return nodeWidth;
@@ -134,6 +147,7 @@ export function buildGraphFromState(
 		let nodeType = "recipe";
 		if (element.source?.type === "mining") nodeType = "mining";
 		if (element.source?.type === "extraction") nodeType = "extraction";
+		if (element.source?.type === "gathering") nodeType = "gathering";
 
 		const nodeWidth = getNodeWidth(element, elements);
 		const node: Node = {
@@ -153,7 +167,18 @@ export function buildGraphFromState(
 			edges.push(createEdge(parentElement, element));
 		}
 
-		const validChildren = element.inputs.filter((id) => elements[id]);
+		// Loop inputs are fed back from an ancestor rather than drawn as nodes
+		const validChildren: string[] = [];
+		for (const id of element.inputs) {
+			const child = elements[id];
+			if (!child) continue;
+			const ancestor = child.loopOf ? elements[child.loopOf] : undefined;
+			if (ancestor) {
+				edges.push(createLoopEdge(ancestor, element, child));
+			} else if (!child.loopOf) {
+				validChildren.push(id);
+			}
+		}
 		if (validChildren.length === 0) return;
 
 		// Sum children subtree widths
@@ -173,6 +198,36 @@ export function buildGraphFromState(
 		}
 	}
 
+	// Byproduct edges run from the producer to the element they supply
+	for (const elementId of visited) {
+		const element = elements[elementId];
+		if (!element) continue;
+		for (const byproduct of element.byproducts) {
+			for (const consumerId of byproduct.consumedBy) {
+				if (!visited.has(consumerId)) continue;
+				edges.push(createByproductEdge(element, consumerId, byproduct));
+			}
+		}
+	}
+
+	// Proliferator edges run from the target producing it to each sprayed element
+	const proliferatorProducers = new Map<number, CalculationElement>();
+	for (const target of targets) {
+		const root = elements[target.rootElementId];
+		if (root && visited.has(root.id) && root.source) {
+			proliferatorProducers.set(root.itemId, root);
+		}
+	}
+	for (const elementId of visited) {
+		const element = elements[elementId];
+		const consumption = element?.proliferatorConsumption;
+		if (!consumption) continue;
+		const producer = proliferatorProducers.get(consumption.itemId);
+		if (producer && producer.id !== element.id) {
+			edges.push(createProliferatorEdge(producer, element));
+		}
+	}
+
 	return { nodes, edges };
 }
 
@@ -194,9 +249,14 @@ function createNodeData(
 		actualRate: element.actualRate,
 		facilityItemId: element.facility?.itemId ?? null,
 		facilityCount: element.facility?.count ?? 0,
+		builtCount: element.facility?.builtCount,
+		rounding: element.rounding ?? null,
+		surplusRate: getSurplusRate(element),
 		hasSource: !!element.source,
 		sourceType: element.source?.type ?? "",
 		inputHandles: buildInputHandles(element, elements),
+		byproductHandles: buildByproductHandles(element),
+		byproductSupply: element.byproductSupply ?? 0,
 		cycleDuration: 0,
 		perCycleAmount: 0,
 		canCraft,
@@ -209,6 +269,7 @@ function createNodeData(
 		// Proliferator data
 		proliferatorMode: element.facility?.modifier.mode ?? "none",
 		proliferatorLevel: element.facility?.modifier.level ?? 0,
+		canUseProductMode: true,
 		proliferatorConsumption: element.proliferatorConsumption
 			? {
 					itemId: element.proliferatorConsumption.itemId,
@@ -216,6 +277,24 @@ function createNodeData(
 					itemsPerSecond: element.proliferatorConsumption.itemsPerSecond,
 				}
 			: undefined,
+		sprayCoaterCount: element.proliferatorConsumption?.sprayCoaters ?? 0,
+		power: calculateElementPower(
+			element,
+			BuildingDetailsService.getWorkPower(element.facility?.itemId ?? 0) ?? 0,
+		),
+		beltItemId: element.facility?.beltItemId ?? DEFAULT_BELT_ITEM_ID,
+		// Input items leaving fractionators unconverted
+		passThroughRate: 0,
+		veinsPerMiner: 0,
+		minerSpeedSetting: element.facility?.speedMultiplier ?? 1,
+		themeId: 0,
+		fuelShare: 0,
+		seepYield: 0,
+		lens: false,
+		continuity: 1,
+		// Dyson sphere power and graviton lenses of all the element's receivers
+		spherePower: 0,
+		lensRate: 0,
 	};
 
 	// Add cycle information based on source type
@@ -228,15 +307,33 @@ function createNodeData(
 				baseData.perCycleAmount = recipe.ResultCounts[outputIndex] ?? 1;
 			}
 			baseData.cycleDuration = recipe.TimeSpend / TICKS_PER_SECOND;
+			baseData.canUseProductMode = DSPData.canRecipeUseProductMode(recipe.ID);
+			if (recipe.Type === "Fractionate" && element.facility) {
+				baseData.passThroughRate =
+					calculateFractionation(baseData.beltItemId, element.facility.modifier)
+						.passThroughRate * element.facility.count;
+			}
 		}
 	} else if (element.source?.type === "mining") {
 		const miningSource = element.source as MiningSource;
 		baseData.cycleDuration = miningSource.miningTime; // Already in seconds
 		baseData.perCycleAmount = 1;
+		baseData.veinsPerMiner = miningSource.veinsPerMiner ?? 0;
 	} else if (element.source?.type === "extraction") {
 		const extractionSource = element.source as ExtractionSource;
 		baseData.cycleDuration = 1; // 1 second
 		baseData.perCycleAmount = extractionSource.extractionSpeed;
+		baseData.themeId = extractionSource.themeId;
+		baseData.fuelShare = extractionSource.fuelShare ?? 0;
+		baseData.seepYield = extractionSource.seepYield ?? 0;
+	} else if (element.source?.type === "gathering") {
+		const gatheringSource = element.source as GatheringSource;
+		baseData.cycleDuration = 1;
+		baseData.perCycleAmount = gatheringSource.gatheringSpeed;
+		baseData.lens = gatheringSource.lens;
+		baseData.continuity = gatheringSource.continuity;
+		baseData.spherePower = gatheringSource.spherePower * baseData.facilityCount;
+		baseData.lensRate = gatheringSource.lensRate * baseData.facilityCount;
 	}
 
 	return baseData;
@@ -267,11 +364,129 @@ function buildInputHandles(
 			elementId: childId,
 			itemId,
 			itemName: childItem?.Name ?? "",
-			rate: child?.requiredRate ?? 0,
+			rate: child ? getEdgeRate(element, child) : 0,
 		};
 	});
 }
 
+function buildByproductHandles(element: CalculationElement): Array<{
+	itemId: number;
+	itemName: string;
+	rate: number;
+}> {
+	return element.byproducts
+		.filter((byproduct) => byproduct.consumedBy.length > 0)
+		.map((byproduct) => ({
+			itemId: byproduct.itemId,
+			itemName: DSPData.getItemById(byproduct.itemId)?.Name ?? "",
+			rate: Object.values(byproduct.consumedRates ?? {}).reduce(
+				(sum, rate) => sum + rate,
+				0,
+			),
+		}));
+}
+
+function createByproductEdge(
+	producer: CalculationElement,
+	consumerId: string,
+	byproduct: Byproduct,
+): Edge {
+	return {
+		id: `byproduct-${producer.id}-${consumerId}`,
+		source: producer.id,
+		sourceHandle: `byproduct-${byproduct.itemId}`,
+		target: consumerId,
+		targetHandle: "byproduct-in",
+		type: "flow",
+		data: {
+			rate: byproduct.consumedRates?.[consumerId] ?? 0,
+			itemId: byproduct.itemId,
+			itemsPerCycle: 0,
+			isByproduct: true,
+		},
+	};
+}
+
+function createProliferatorEdge(
+	producer: CalculationElement,
+	consumer: CalculationElement,
+): Edge {
+	return {
+		id: `proliferator-${producer.id}-${consumer.id}`,
+		source: producer.id,
+		sourceHandle: "output",
+		target: consumer.id,
+		targetHandle: "proliferator-in",
+		type: "flow",
+		data: {
+			rate: consumer.proliferatorConsumption?.itemsPerSecond ?? 0,
+			itemId: producer.itemId,
+			itemsPerCycle: 0,
+			isProliferator: true,
+		},
+	};
+}
+
+function createLoopEdge(
+	ancestor: CalculationElement,
+	parent: CalculationElement,
+	loop: CalculationElement,
+): Edge {
+	return {
+		id: `loop-${loop.id}-${parent.id}`,
+		source: ancestor.id,
+		sourceHandle: "output",
+		target: parent.id,
+		targetHandle: `input-${loop.id}`,
+		type: "flow",
+		data: {
+			rate: getEdgeRate(parent, loop),
+			itemId: loop.itemId,
+			itemsPerCycle: 0,
+			isLoop: true,
+		},
+	};
+}
+
+/** Output beyond demand, made by rounded-up facilities running at full speed */
+function getSurplusRate(element: CalculationElement): number {
+	const surplus = element.actualRate - getNetRequiredRate(element);
+	return surplus > SURPLUS_EPSILON ? surplus : 0;
+}
+
+/** Rate the parent draws from a child; shared children feed several parents */
+export function getEdgeRate(
+	parent: CalculationElement,
+	child: CalculationElement,
+): number {
+	if (parent.source?.type !== "recipe" || !parent.facility) {
+		return child.requiredRate;
+	}
+	const recipe = DSPData.getRecipeById(
+		(parent.source as RecipeSource).recipeId,
+	);
+	const inputIndex = recipe?.Items.indexOf(child.itemId) ?? -1;
+	if (!recipe || inputIndex === -1) return child.requiredRate;
+
+	if (recipe.Type === "Fractionate") {
+		return (
+			calculateFractionation(
+				parent.facility.beltItemId ?? DEFAULT_BELT_ITEM_ID,
+				parent.facility.modifier,
+			).inputRate * parent.facility.count
+		);
+	}
+
+	return (
+		calculateInputRate(
+			recipe.ItemCounts[inputIndex] ?? 0,
+			recipe.TimeSpend,
+			parent.facility.speedMultiplier,
+			parent.facility.modifier,
+		) * parent.facility.count
+	);
+}
+
 function createEdge(
 	parent: CalculationElement,
 	child: CalculationElement,
@@ -299,7 +514,7 @@ function createEdge(
 		targetHandle: `input-${child.id}`,
 		type: "flow",
 		data: {
-			rate: child.requiredRate,
+			rate: getEdgeRate(parent, child),
 			itemId: child.itemId,
 			itemsPerCycle,
 		},
@@ -0,0 +1,104 @@
+import type { Edge, Node } from "@xyflow/react";
+import { calculateTechCost } from "../calculator/research";
+import { DSPData } from "../data/dsp-data";
+import type { Tech } from "../data/models";
+
+// Pixels per unit of a tech's Position; techs sit 4 units apart
+const TECH_GRID_SCALE = 70;
+
+export interface TechCostItem {
+	itemId: number;
+	count: number;
+}
+
+export interface TechRecipe {
+	recipeId: number;
+	itemId: number;
+	name: string;
+}
+
+export interface TechNodeData extends Record<string, unknown> {
+	techId: number;
+	name: string;
+	hashes: number;
+	items: TechCostItem[];
+	recipes: TechRecipe[];
+	researched: boolean;
+}
+
+function createTechNode(tech: Tech, researched: boolean): Node<TechNodeData> {
+	const cost = calculateTechCost(tech);
+	return {
+		id: `tech-${tech.ID}`,
+		type: "tech",
+		// The game's y axis points up
+		position: {
+			x: tech.Position.x * TECH_GRID_SCALE,
+			y: -tech.Position.y * TECH_GRID_SCALE,
+		},
+		data: {
+			techId: tech.ID,
+			name: tech.Name,
+			hashes: cost.hashes,
+			items: Array.from(cost.items, ([itemId, count]) => ({ itemId, count })),
+			recipes: tech.UnlockRecipes.flatMap((recipeId) => {
+				const recipe = DSPData.getRecipeById(recipeId);
+				const itemId = recipe?.Results[0];
+				return recipe && itemId !== undefined
+					? [{ recipeId, itemId, name: recipe.Name }]
+					: [];
+			}),
+			researched,
+		},
+	};
+}
+
+function createPrerequisiteEdge(
+	preTechId: number,
+	techId: number,
+	implicit: boolean,
+): Edge {
+	return {
+		id: `tech-${preTechId}-${techId}`,
+		source: `tech-${preTechId}`,
+		target: `tech-${techId}`,
+		type: "smoothstep",
+		style: implicit
+			? { stroke: "#6b7280", strokeDasharray: "4 4" }
+			: { stroke: "#9ca3af" },
+	};
+}
+
+/**
+ * Graph of the main tech tree at the game's own positions. Implicit
+ * prerequisites get dashed edges; hidden techs are left out.
+ */
+export function buildTechTreeGraph(completedTechIds: Iterable<number> = []): {
+	nodes: Node<TechNodeData>[];
+	edges: Edge[];
+} {
+	const completed = new Set(completedTechIds);
+	const techs = DSPData.mainTechs.filter(
+		(tech) => tech.Published && !tech.IsHiddenTech,
+	);
+	const shown = new Set(techs.map((tech) => tech.ID));
+
+	const edges: Edge[] = [];
+	for (const tech of techs) {
+		for (const preTechId of tech.PreTechs) {
+			if (shown.has(preTechId)) {
+				edges.push(createPrerequisiteEdge(preTechId, tech.ID, false));
+			}
+		}
+		for (const preTechId of tech.PreTechsImplicit) {
+			if (shown.has(preTechId)) {
+				edges.push(createPrerequisiteEdge(preTechId, tech.ID, true));
+			}
+		}
+	}
+
+	return {
+		nodes: techs.map((tech) => createTechNode(tech, completed.has(tech.ID))),
+		edges,
+	};
+}
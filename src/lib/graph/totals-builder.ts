@@ -3,9 +3,16 @@ import type {
 	CalculationElement,
 	CalculationTarget,
 	RecipeSource,
+	RoundingMode,
 	SourceType,
 } from "../calculator/models";
+import {
+	calculateElementPower,
+	getBuiltFacilityCount,
+} from "../calculator/utils";
+import { BuildingDetailsService } from "../data/building-details-service";
 import { DSPData } from "../data/dsp-data";
+import { getEdgeRate } from "./builder";
 import {
 	placeManyConsumerItems,
 	placeSingleConsumerItems,
@@ -27,11 +34,15 @@ export interface AggregatedItem {
 	requiredRate: number;
 	actualRate: number;
 	facilities: Map<number, number>; // facilityItemId → total count
+	builtFacilities: Map<number, number>; // facilityItemId → whole buildings
 	sourceTypes: Set<SourceType>;
 	elementCount: number;
 	supplierItemIds: Set<number>; // items that feed into this one
 	recipeTypes: Set<string>; // recipe types used by elements of this item
 	proliferatorConsumption: Map<number, number>; // proliferatorItemId → items/sec
+	sprayCoaters: number; // spray coaters on the input belts of all elements
+	byproductSupply: number; // items/sec received from other items' byproducts
+	power: number; // work power of all facilities in watts
 }
 
 export interface AggregatedEdge {
@@ -67,6 +78,7 @@ function collectReachableElementIds(
 export function buildTotalsGraphFromState(
 	targets: CalculationTarget[],
 	elements: Record<string, CalculationElement>,
+	rounding: RoundingMode = "exact",
 ): { nodes: Node[]; edges: Edge[] } {
 	if (targets.length === 0) return { nodes: [], edges: [] };
 
@@ -89,7 +101,8 @@ export function buildTotalsGraphFromState(
 
 	for (const elementId of reachableIds) {
 		const element = elements[elementId];
-		if (!element) continue;
+		// Loop elements are supplied by their ancestor, which already counts them
+		if (!element || element.loopOf) continue;
 
 		let agg = itemMap.get(element.itemId);
 		if (!agg) {
@@ -98,11 +111,15 @@ export function buildTotalsGraphFromState(
 				requiredRate: 0,
 				actualRate: 0,
 				facilities: new Map(),
+				builtFacilities: new Map(),
 				sourceTypes: new Set(),
 				elementCount: 0,
 				supplierItemIds: new Set(),
 				recipeTypes: new Set(),
 				proliferatorConsumption: new Map(),
+				sprayCoaters: 0,
+				byproductSupply: 0,
+				power: 0,
 			};
 			itemMap.set(element.itemId, agg);
 		}
@@ -110,6 +127,7 @@ export function buildTotalsGraphFromState(
 		agg.requiredRate += element.requiredRate;
 		agg.actualRate += element.actualRate;
 		agg.elementCount += 1;
+		agg.byproductSupply += element.byproductSupply ?? 0;
 
 		if (element.source) {
 			agg.sourceTypes.add(element.source.type);
@@ -127,6 +145,15 @@ export function buildTotalsGraphFromState(
 				element.facility.itemId,
 				prev + element.facility.count,
 			);
+			agg.builtFacilities.set(
+				element.facility.itemId,
+				(agg.builtFacilities.get(element.facility.itemId) ?? 0) +
+					(element.facility.builtCount ?? element.facility.count),
+			);
+			agg.power += calculateElementPower(
+				element,
+				BuildingDetailsService.getWorkPower(element.facility.itemId) ?? 0,
+			);
 		}
 
 		// Aggregate proliferator consumption
@@ -139,6 +166,7 @@ export function buildTotalsGraphFromState(
 				element.proliferatorConsumption.itemId,
 				current + element.proliferatorConsumption.itemsPerSecond,
 			);
+			agg.sprayCoaters += element.proliferatorConsumption.sprayCoaters ?? 0;
 		}
 	}
 
@@ -178,16 +206,17 @@ export function buildTotalsGraphFromState(
 				itemsPerCycle = perFacility * facilityCount;
 			}
 
+			const rate = getEdgeRate(element, child);
 			const key = `${child.itemId}-${element.itemId}`;
 			const existing = edgeMap.get(key);
 			if (existing) {
-				existing.totalRate += child.requiredRate;
+				existing.totalRate += rate;
 				existing.totalItemsPerCycle += itemsPerCycle;
 			} else {
 				edgeMap.set(key, {
 					sourceItemId: child.itemId,
 					targetItemId: element.itemId,
-					totalRate: child.requiredRate,
+					totalRate: rate,
 					totalItemsPerCycle: itemsPerCycle,
 				});
 			}
@@ -200,6 +229,47 @@ export function buildTotalsGraphFromState(
 		}
 	}
 
+	// Byproduct edges: producer item → byproduct item, kept out of the layout
+	const byproductEdgeMap = new Map<string, AggregatedEdge>();
+	for (const elementId of reachableIds) {
+		const element = elements[elementId];
+		if (!element) continue;
+
+		for (const byproduct of element.byproducts) {
+			if (byproduct.itemId === element.itemId) continue;
+			for (const consumerId of byproduct.consumedBy) {
+				if (!reachableIds.has(consumerId)) continue;
+				const rate = byproduct.consumedRates?.[consumerId] ?? 0;
+				const key = `${element.itemId}-${byproduct.itemId}`;
+				const existing = byproductEdgeMap.get(key);
+				if (existing) {
+					existing.totalRate += rate;
+				} else {
+					byproductEdgeMap.set(key, {
+						sourceItemId: element.itemId,
+						targetItemId: byproduct.itemId,
+						totalRate: rate,
+						totalItemsPerCycle: 0,
+					});
+				}
+			}
+		}
+	}
+
+	// Proliferator edges: proliferator item → sprayed item, kept out of the layout
+	const proliferatorEdgeMap = new Map<string, AggregatedEdge>();
+	for (const agg of itemMap.values()) {
+		for (const [prolifItemId, rate] of agg.proliferatorConsumption) {
+			if (!itemMap.has(prolifItemId) || prolifItemId === agg.itemId) continue;
+			proliferatorEdgeMap.set(`${prolifItemId}-${agg.itemId}`, {
+				sourceItemId: prolifItemId,
+				targetItemId: agg.itemId,
+				totalRate: rate,
+				totalItemsPerCycle: 0,
+			});
+		}
+	}
+
 	// Phase 3: NEW iterative connection-first layout
 
 	// Build consumersOf map: itemId → set of item IDs that consume it
@@ -241,6 +311,8 @@ export function buildTotalsGraphFromState(
 		if (!consumers) continue;
 		for (const consumerId of consumers) {
 			const newDist = currentDist + 1;
+			// Cyclic plans would otherwise keep growing the distance forever
+			if (newDist > itemMap.size) continue;
 			if (newDist > (distFromLeaf.get(consumerId) ?? -1)) {
 				distFromLeaf.set(consumerId, newDist);
 				queue.push(consumerId);
@@ -337,6 +409,7 @@ export function buildTotalsGraphFromState(
 			const facilityEntries: Array<{
 				itemId: number;
 				count: number;
+				builtCount: number;
 				name: string;
 			}> = [];
 			for (const [facItemId, count] of agg.facilities) {
@@ -344,6 +417,11 @@ export function buildTotalsGraphFromState(
 				facilityEntries.push({
 					itemId: facItemId,
 					count,
+					// Per-item rounding places whole buildings for the item's total
+					builtCount:
+						rounding === "item"
+							? getBuiltFacilityCount(count, "element")
+							: (agg.builtFacilities.get(facItemId) ?? count),
 					name: facItem?.Name ?? "",
 				});
 			}
@@ -387,6 +465,15 @@ export function buildTotalsGraphFromState(
 						};
 					}),
 					proliferatorSummary,
+					sprayCoaterCount: agg.sprayCoaters,
+					byproductHandles: Array.from(byproductEdgeMap.values())
+						.filter((edge) => edge.sourceItemId === agg.itemId)
+						.map((edge) => ({
+							itemId: edge.targetItemId,
+							itemName: DSPData.getItemById(edge.targetItemId)?.Name ?? "",
+						})),
+					byproductSupply: agg.byproductSupply,
+					power: agg.power,
 				},
 			});
 		}
@@ -409,5 +496,39 @@ export function buildTotalsGraphFromState(
 		});
 	}
 
+	for (const aggEdge of byproductEdgeMap.values()) {
+		edges.push({
+			id: `totals-byproduct-${aggEdge.sourceItemId}-${aggEdge.targetItemId}`,
+			source: `totals-${aggEdge.sourceItemId}`,
+			sourceHandle: `byproduct-${aggEdge.targetItemId}`,
+			target: `totals-${aggEdge.targetItemId}`,
+			targetHandle: "byproduct-in",
+			type: "flow",
+			data: {
+				rate: aggEdge.totalRate,
+				itemId: aggEdge.targetItemId,
+				itemsPerCycle: 0,
+				isByproduct: true,
+			},
+		});
+	}
+
+	for (const aggEdge of proliferatorEdgeMap.values()) {
+		edges.push({
+			id: `totals-proliferator-${aggEdge.sourceItemId}-${aggEdge.targetItemId}`,
+			source: `totals-${aggEdge.sourceItemId}`,
+			sourceHandle: "output",
+			target: `totals-${aggEdge.targetItemId}`,
+			targetHandle: "proliferator-in",
+			type: "flow",
+			data: {
+				rate: aggEdge.totalRate,
+				itemId: aggEdge.sourceItemId,
+				itemsPerCycle: 0,
+				isProliferator: true,
+			},
+		});
+	}
+
 	return { nodes, edges };
 }
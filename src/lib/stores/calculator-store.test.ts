@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+	addRecipeTarget,
+	calculatorStore,
+	getPerFacilityRate,
+	getRecipeRates,
+	setResearchEnabled,
+} from "./calculator-store";
+
+const GRAPHENE_ITEM_ID = 1123;
+// Slower than the fire ice recipe, which is the default with fewer inputs
+const GRAPHENE_RECIPE_ID = 31;
+
+const initialState = calculatorStore.state;
+
+function getGrapheneRate(recipeId: number): number | undefined {
+	return getRecipeRates(recipeId)?.outputs.find(
+		(output) => output.itemId === GRAPHENE_ITEM_ID,
+	)?.rate;
+}
+
+describe("addRecipeTarget", () => {
+	beforeEach(() => {
+		calculatorStore.setState(() => initialState);
+	});
+
+	it("should rate an alternate recipe by its own output", () => {
+		const targetId = addRecipeTarget(GRAPHENE_RECIPE_ID);
+		const target = calculatorStore.state.targets.find((t) => t.id === targetId);
+
+		expect(target?.itemId).toBe(GRAPHENE_ITEM_ID);
+		expect(target?.targetRate).toBeCloseTo(
+			getGrapheneRate(GRAPHENE_RECIPE_ID) ?? 0,
+		);
+		expect(target?.targetRate).toBeLessThan(
+			getPerFacilityRate(GRAPHENE_ITEM_ID),
+		);
+	});
+
+	it("should rate a recipe research hasn't unlocked yet", () => {
+		setResearchEnabled(true);
+		expect(getPerFacilityRate(GRAPHENE_ITEM_ID)).toBe(0);
+
+		const targetId = addRecipeTarget(GRAPHENE_RECIPE_ID);
+		const target = calculatorStore.state.targets.find((t) => t.id === targetId);
+
+		expect(target?.targetRate).toBeGreaterThan(0);
+		expect(target?.targetRate).toBeCloseTo(
+			getGrapheneRate(GRAPHENE_RECIPE_ID) ?? 0,
+		);
+	});
+});
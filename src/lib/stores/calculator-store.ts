@@ -1,28 +1,110 @@
 import { Store } from "@tanstack/store";
+import {
+	calculateOilExtraction,
+	calculateOrbitalCollection,
+	DEFAULT_OIL_SEEP_YIELD,
+	OIL_EXTRACTOR_ITEM_ID,
+	ORBITAL_COLLECTOR_ITEM_ID,
+	WATER_PUMP_ITEM_ID,
+} from "../calculator/extraction";
+import {
+	CRITICAL_PHOTON_ITEM_ID,
+	calculatePhotonGathering,
+	RAY_RECEIVER_ITEM_ID,
+} from "../calculator/gathering";
+import {
+	type CarrierStats,
+	calculateCarrierStats,
+	calculateShipment,
+	INTERSTELLAR_LOGISTICS_STATION_ITEM_ID,
+	type LogisticsShipment,
+	PLANETARY_LOGISTICS_STATION_ITEM_ID,
+	SPACE_WARPER_ITEM_ID,
+} from "../calculator/logistics";
 import type {
+	AutoTargetKind,
 	CalculationElement,
 	CalculationTarget,
 	CalculatorState,
+	ExtractionSource,
+	Extractor,
+	FacilityConfig,
+	Gatherer,
+	GatheringSource,
+	LogisticsConfig,
+	LogisticsRoute,
+	MiningConfig,
+	MiningSource,
 	NodePosition,
+	PlanMode,
+	PowerGenerationConfig,
 	ProliferatorMode,
+	ProliferatorPolicy,
+	ProliferatorPolicyScope,
+	RayReceiverConfig,
+	RecipeData,
+	RecipeSource,
 	RecipeType,
+	ResearchTarget,
+	RoundingConfig,
+	RoundingMode,
 	TotalsNodePosition,
 	ViewState,
 } from "../calculator/models";
 import {
-	calculateInputRate,
-	calculateOutputRate,
-	calculateProliferatorConsumption,
+	DEFAULT_LOGISTICS_CONFIG,
+	DEFAULT_MINING_CONFIG,
+	DEFAULT_RAY_RECEIVER_CONFIG,
+	PROLIFERATOR_ITEM_IDS,
+} from "../calculator/models";
+import {
+	optimizeRecipes,
+	type RecipeObjective,
+	type RecipeOptimizerContext,
+} from "../calculator/optimizer";
+import {
+	calculatePowerGeneration,
+	type PowerGeneration,
+} from "../calculator/power";
+import {
+	calculateResearchLabs,
+	calculateTechCost,
+	type ResearchCost,
+	type ResearchLabs,
+	type ResearchSelection,
+	sumResearchCosts,
+} from "../calculator/research";
+import {
+	collectPlanChoices,
+	type PlanChoice,
+	solveProductionPlan,
+} from "../calculator/solver";
+import {
+	allocateByproducts,
+	calculateElementPower,
+	calculateElementProliferation,
+	calculateFacilitySummary,
+	calculateMinerRate,
+	calculateProliferatorDemand,
+	calculateRateBreakdown,
+	calculateRecipeInputRate,
+	calculateRecipeOutputRate,
 	calculateRequiredFacilities,
 	createBaseElement,
+	createFacilityConfig,
 	expandElementWithRecipe,
 	generateElementId,
+	getMiningConfig,
+	mergeSharedElements,
 	recalculateSubtree,
 	setElementToExtraction,
+	setElementToGathering,
 	setElementToMining,
+	withValidModifier,
 } from "../calculator/utils";
 import { BuildingDetailsService } from "../data/building-details-service";
 import { DSPData } from "../data/dsp-data";
+import type { Recipe } from "../data/models";
 
 const STORAGE_KEY = "dsp-calculator-state-v1";
 
@@ -61,6 +143,10 @@ const initialState: CalculatorState = {
 		},
 		proliferator: { mode: "none", level: 0 },
 	},
+	planMode: "tree",
+	powerGeneration: null,
+	rounding: { mode: "exact", propagate: false },
+	produceProliferators: false,
 	elements: {},
 	nodePositions: [],
 	totalsNodePositions: [],
@@ -87,45 +173,51 @@ if (savedState) {
 
 export function addTarget(itemId: number, targetRate: number): string {
 	const targetId = generateElementId();
-	const elementId = generateElementId();
+	updatePlan((state) => withTarget(state, targetId, itemId, targetRate));
+	return targetId;
+}
 
+function withTarget(
+	state: CalculatorState,
+	targetId: string,
+	itemId: number,
+	targetRate: number,
+	auto?: AutoTargetKind,
+): CalculatorState {
+	const elementId = generateElementId();
 	let element = createBaseElement(itemId, targetRate, null, 0);
 	element.id = elementId;
+	const childElements: Record<string, CalculationElement> = {};
 
 	const miningTime = DSPData.getMiningTime(itemId);
 	const extractionSpeed = DSPData.getExtractionSpeed(itemId);
 
 	if (miningTime !== undefined) {
-		element = setElementToMining(element, miningTime);
+		element = mineElement(element, miningTime, state.globalDefaults);
 	} else if (extractionSpeed !== undefined) {
-		element = setElementToExtraction(element, extractionSpeed);
+		element = extractElement(element, extractionSpeed, state.globalDefaults);
+	} else if (getGatherer(itemId, state.globalDefaults)) {
+		element = gatherElement(element, state.globalDefaults);
 	} else {
-		const recipes = DSPData.getRecipesProducing(itemId);
+		const recipes = getAvailableRecipes(itemId, state);
 		if (recipes.length > 0) {
-			const childElements: Record<string, CalculationElement> = {};
 			element = expandElementWithRecipe(
 				element,
 				recipes[0].ID,
 				getContext(),
-				calculatorStore.state.globalDefaults,
+				state.globalDefaults,
 				(child) => {
-					childElements[child.id] = autoAssignSource(child);
+					childElements[child.id] = resolveChild(
+						child,
+						new Map([[itemId, elementId]]),
+						state.globalDefaults,
+					);
 				},
 			);
-			Object.assign(childElements, { [elementId]: element });
-
-			const target: CalculationTarget = {
-				id: targetId,
-				itemId,
-				targetRate,
-				rootElementId: elementId,
-			};
-			calculatorStore.setState((state) => ({
-				...state,
-				targets: [...state.targets, target],
-				elements: { ...state.elements, ...childElements },
-			}));
-			return targetId;
+			if (state.planMode === "solver") {
+				// Unresolved children would read as imports to the solver
+				element = { ...element, inputs: [] };
+			}
 		}
 	}
 
@@ -134,38 +226,312 @@ export function addTarget(itemId: number, targetRate: number): string {
 		itemId,
 		targetRate,
 		rootElementId: elementId,
+		...(auto && { auto }),
 	};
 
-	calculatorStore.setState((state) => ({
+	const elements =
+		state.planMode === "solver"
+			? { ...state.elements, [elementId]: element }
+			: { ...state.elements, ...childElements, [elementId]: element };
+
+	return {
 		...state,
 		targets: [...state.targets, target],
-		elements: { ...state.elements, [elementId]: element },
-	}));
+		elements,
+	};
+}
 
+/**
+ * Adds a target for a recipe's main product at one facility's output, made
+ * with that recipe even if research hasn't unlocked it yet.
+ */
+export function addRecipeTarget(recipeId: number): string | undefined {
+	const itemId = DSPData.getRecipeById(recipeId)?.Results[0];
+	if (itemId === undefined) return undefined;
+
+	const rate =
+		getRecipeRates(recipeId)?.outputs.find((o) => o.itemId === itemId)?.rate ??
+		0;
+	const targetId = addTarget(itemId, rate);
+	const { targets, elements } = calculatorStore.state;
+	const target = targets.find((t) => t.id === targetId);
+	const source = target && elements[target.rootElementId]?.source;
+	if (target && (source?.type !== "recipe" || source.recipeId !== recipeId)) {
+		setElementRecipe(target.rootElementId, recipeId, true);
+	}
 	return targetId;
 }
 
-export function removeTarget(targetId: string): void {
-	calculatorStore.setState((state) => {
-		const target = state.targets.find((t) => t.id === targetId);
-		if (!target) return state;
-
-		const elementsToRemove = new Set<string>();
-		collectElementIds(target.rootElementId, state.elements, elementsToRemove);
+/** Hashes and research items the selected techs and levels take */
+export function getResearchCost(selections: ResearchSelection[]): ResearchCost {
+	return sumResearchCosts(
+		selections.flatMap((selection) => {
+			const tech = DSPData.getTechById(selection.techId);
+			return tech
+				? [calculateTechCost(tech, selection.fromLevel, selection.toLevel)]
+				: [];
+		}),
+	);
+}
 
-		const newElements = { ...state.elements };
-		for (const id of elementsToRemove) {
-			delete newElements[id];
+/**
+ * Adds a target per research item, at the rate that finishes the selected
+ * research in `seconds`.
+ */
+export function addResearchTargets(
+	selections: ResearchSelection[],
+	seconds: number,
+): void {
+	if (seconds <= 0) return;
+	const { items } = getResearchCost(selections);
+	updatePlan((state) => {
+		let next = state;
+		for (const [itemId, count] of items) {
+			if (count <= 0) continue;
+			next = withTarget(next, generateElementId(), itemId, count / seconds);
 		}
+		return next;
+	});
+}
+
+export interface ResearchTargetLabs extends ResearchLabs {
+	target: ResearchTarget;
+	labItemId: number;
+	// Work power of the labs in watts
+	power: number;
+}
+
+/** Labs each research target keeps busy, and what they use up */
+export function getResearchLabs(
+	state: CalculatorState = calculatorStore.state,
+): ResearchTargetLabs[] {
+	const labItemId = getUnlockedFacility(
+		state.globalDefaults.facilities.Research ?? 2901,
+		"Research",
+		state,
+	);
+	const labSpeed = BuildingDetailsService.getResearchSpeed(labItemId) ?? 0;
+	const workPower = BuildingDetailsService.getWorkPower(labItemId) ?? 0;
+
+	return (state.researchTargets ?? []).flatMap((target) => {
+		const tech = DSPData.getTechById(target.techId);
+		if (!tech) return [];
+		const labs = calculateResearchLabs(
+			tech,
+			target.hashRate,
+			labSpeed,
+			state.globalDefaults.researchSpeed,
+			state.globalDefaults.labStackHeight,
+		);
+		return [{ ...labs, target, labItemId, power: labs.labs * workPower }];
+	});
+}
+
+/** Research a tech at `hashRate` hashes per second */
+export function addResearchTarget(techId: number, hashRate: number): void {
+	if (hashRate <= 0) return;
+	updatePlan((state) => ({
+		...state,
+		researchTargets: [
+			...(state.researchTargets ?? []),
+			{ id: generateElementId(), techId, hashRate },
+		],
+	}));
+}
+
+export function updateResearchTargetRate(id: string, hashRate: number): void {
+	if (hashRate <= 0) return;
+	updatePlan((state) => ({
+		...state,
+		researchTargets: (state.researchTargets ?? []).map((target) =>
+			target.id === id ? { ...target, hashRate } : target,
+		),
+	}));
+}
+
+export function removeResearchTarget(id: string): void {
+	updatePlan((state) => ({
+		...state,
+		researchTargets: (state.researchTargets ?? []).filter(
+			(target) => target.id !== id,
+		),
+	}));
+}
+
+// First techs of the carrier upgrade series
+const LOGISTICS_ENGINE_TECH_ID = 3401;
+const LOGISTICS_CAPACITY_TECH_ID = 3501;
+
+/** Drone and vessel stats at the plan's logistics research levels */
+export function getCarrierStats(
+	state: CalculatorState = calculatorStore.state,
+): CarrierStats {
+	const config = state.globalDefaults.logistics ?? DEFAULT_LOGISTICS_CONFIG;
+	return calculateCarrierStats(
+		DSPData.getTechSeries(LOGISTICS_ENGINE_TECH_ID),
+		config.engineLevel,
+		DSPData.getTechSeries(LOGISTICS_CAPACITY_TECH_ID),
+		config.capacityLevel,
+	);
+}
+
+export interface LogisticsRouteShipment extends LogisticsShipment {
+	route: LogisticsRoute;
+	stationItemId: number;
+	// Items per second shipped
+	rate: number;
+}
+
+/** Carriers and stations each logistics route keeps busy */
+export function getLogisticsShipments(
+	state: CalculatorState = calculatorStore.state,
+): LogisticsRouteShipment[] {
+	const routes = state.logisticsRoutes ?? [];
+	if (routes.length === 0) return [];
+
+	const stats = getCarrierStats(state);
+	const config = state.globalDefaults.logistics ?? DEFAULT_LOGISTICS_CONFIG;
+	const required = new Map(
+		calculateRateBreakdown(state.targets, state.elements).map((b) => [
+			b.itemId,
+			b.requiredRate,
+		]),
+	);
 
+	return routes.map((route) => {
+		const rate = route.rate ?? required.get(route.itemId) ?? 0;
 		return {
-			...state,
-			targets: state.targets.filter((t) => t.id !== targetId),
-			elements: newElements,
+			...calculateShipment(
+				route.station,
+				rate,
+				route.distance,
+				stats,
+				config.warpDistance,
+			),
+			route,
+			rate,
+			stationItemId:
+				route.station === "planetary"
+					? PLANETARY_LOGISTICS_STATION_ITEM_ID
+					: INTERSTELLAR_LOGISTICS_STATION_ITEM_ID,
 		};
 	});
 }
 
+/** Space warpers the plan's vessels use up per second */
+function getLogisticsDemand(state: CalculatorState): Map<number, number> {
+	const warperRate = getLogisticsShipments(state).reduce(
+		(sum, shipment) => sum + shipment.warperRate,
+		0,
+	);
+	return warperRate > 0
+		? new Map([[SPACE_WARPER_ITEM_ID, warperRate]])
+		: new Map();
+}
+
+/** Whole stations, drones and vessels the logistics routes need, by item */
+export function getLogisticsFleet(
+	state: CalculatorState = calculatorStore.state,
+): Map<number, number> {
+	const fleet = new Map<number, number>();
+	const add = (itemId: number, count: number) =>
+		fleet.set(itemId, (fleet.get(itemId) ?? 0) + count);
+	for (const shipment of getLogisticsShipments(state)) {
+		add(shipment.stationItemId, shipment.stations + shipment.receivingStations);
+		add(shipment.carrierItemId, Math.ceil(shipment.carriers - 1e-9));
+	}
+	return fleet;
+}
+
+/**
+ * Adds a target per station and carrier item, at the rate that builds the
+ * routes' fleet in `seconds`.
+ */
+export function addLogisticsFleetTargets(seconds: number): void {
+	if (seconds <= 0) return;
+	updatePlan((state) => {
+		let next = state;
+		for (const [itemId, count] of getLogisticsFleet(state)) {
+			if (count <= 0) continue;
+			next = withTarget(next, generateElementId(), itemId, count / seconds);
+		}
+		return next;
+	});
+}
+
+/** Ship an item by logistics stations over `distance` metres */
+export function addLogisticsRoute(route: Omit<LogisticsRoute, "id">): void {
+	if (route.distance <= 0) return;
+	updatePlan((state) => ({
+		...state,
+		logisticsRoutes: [
+			...(state.logisticsRoutes ?? []),
+			{ ...route, id: generateElementId() },
+		],
+	}));
+}
+
+export function updateLogisticsRoute(
+	id: string,
+	changes: Partial<Omit<LogisticsRoute, "id">>,
+): void {
+	updatePlan((state) => ({
+		...state,
+		logisticsRoutes: (state.logisticsRoutes ?? []).map((route) =>
+			route.id === id ? { ...route, ...changes } : route,
+		),
+	}));
+}
+
+export function removeLogisticsRoute(id: string): void {
+	updatePlan((state) => ({
+		...state,
+		logisticsRoutes: (state.logisticsRoutes ?? []).filter(
+			(route) => route.id !== id,
+		),
+	}));
+}
+
+export function setLogisticsConfig(logistics: LogisticsConfig): void {
+	updatePlan((state) => ({
+		...state,
+		globalDefaults: { ...state.globalDefaults, logistics },
+	}));
+}
+
+export function removeTarget(targetId: string): void {
+	updatePlan((state) => withoutTarget(state, targetId));
+}
+
+function withoutTarget(
+	state: CalculatorState,
+	targetId: string,
+): CalculatorState {
+	const target = state.targets.find((t) => t.id === targetId);
+	if (!target) return state;
+
+	const remainingTargets = state.targets.filter((t) => t.id !== targetId);
+	const elementsToRemove = new Set<string>();
+	collectElementIds(target.rootElementId, state.elements, elementsToRemove);
+
+	// Elements shared with other targets stay in place
+	const stillReachable = new Set<string>();
+	for (const remaining of remainingTargets) {
+		collectElementIds(remaining.rootElementId, state.elements, stillReachable);
+	}
+
+	const newElements = { ...state.elements };
+	for (const id of elementsToRemove) {
+		if (!stillReachable.has(id)) delete newElements[id];
+	}
+
+	return {
+		...state,
+		targets: remainingTargets,
+		elements: newElements,
+	};
+}
+
 function collectElementIds(
 	elementId: string,
 	elements: Record<string, CalculationElement>,
@@ -187,13 +553,31 @@ export function setElementRecipe(
 	recipeId: number,
 	fromScratch = false,
 ): void {
-	calculatorStore.setState((state) => {
+	updatePlan((state) => {
 		const element = state.elements[elementId];
 		if (!element) return state;
 
+		if (state.planMode === "solver") {
+			// The solver rebuilds the graph, so only the recipe choice is kept
+			const expanded = expandElementWithRecipe(
+				withoutLoop(element),
+				recipeId,
+				getContext(),
+				state.globalDefaults,
+			);
+			return {
+				...state,
+				elements: {
+					...state.elements,
+					[elementId]: { ...expanded, inputs: [] },
+				},
+			};
+		}
+
+		const ancestors = getAncestorItems(elementId, state.elements);
 		const childElements: Record<string, CalculationElement> = {};
 		const expanded = expandElementWithRecipe(
-			element,
+			withoutLoop(element),
 			recipeId,
 			getContext(),
 			state.globalDefaults,
@@ -205,11 +589,17 @@ export function setElementRecipe(
 							child,
 							state.globalDefaults,
 							childElements,
+							undefined,
+							ancestors,
 						);
 						childElements[child.id] = expandedChild;
 					} else {
 						// Just auto-assign mining/extraction if available
-						childElements[child.id] = autoAssignSource(child);
+						childElements[child.id] = resolveChild(
+							child,
+							ancestors,
+							state.globalDefaults,
+						);
 					}
 				}
 			},
@@ -222,24 +612,138 @@ export function setElementRecipe(
 	});
 }
 
+function getOptimizerContext(state: CalculatorState): RecipeOptimizerContext {
+	const context = getContext(state);
+	const { globalDefaults } = state;
+
+	return {
+		getRecipes: (itemId) =>
+			getAvailableRecipes(itemId, state)
+				.map((recipe) => context.getRecipeById(recipe.ID))
+				.filter((recipe) => recipe !== undefined),
+		getRawSupply: (itemId) => {
+			// Same sources expandElementRecursively picks before any recipe
+			if (
+				DSPData.getMiningTime(itemId) === undefined &&
+				DSPData.getExtractionSpeed(itemId) === undefined &&
+				!getGatherer(itemId, globalDefaults)
+			) {
+				return undefined;
+			}
+			const element = expandElementRecursively(
+				createBaseElement(itemId, 1, null, 0),
+				globalDefaults,
+				{},
+			);
+			return {
+				facilityCount: element.facility?.count ?? 0,
+				power: calculateElementPower(
+					element,
+					BuildingDetailsService.getWorkPower(element.facility?.itemId ?? 0) ??
+						0,
+				),
+			};
+		},
+		getFacility: (recipe) =>
+			withValidModifier(
+				recipe,
+				createFacilityConfig(recipe.type, context, globalDefaults),
+			),
+		getFacilityPower: (facility) =>
+			calculateElementPower(
+				{
+					...createBaseElement(0, 0, null, 0),
+					facility: { ...facility, count: 1 },
+				},
+				BuildingDetailsService.getWorkPower(facility.itemId) ?? 0,
+			),
+	};
+}
+
+/**
+ * Switches a target's chain to the recipes that make it cheapest under
+ * `objective`. Works top-down through setElementRecipe, since each change
+ * re-expands the inputs below it with their default recipes.
+ */
+export function optimizeTargetRecipes(
+	targetId: string,
+	objective: RecipeObjective,
+): void {
+	const target = calculatorStore.state.targets.find((t) => t.id === targetId);
+	if (!target) return;
+
+	const { recipes } = optimizeRecipes(
+		target.itemId,
+		objective,
+		getOptimizerContext(calculatorStore.state),
+	);
+
+	const visited = new Set<string>();
+	const queue = [target.rootElementId];
+	while (queue.length > 0) {
+		const id = queue.shift();
+		if (id === undefined || visited.has(id)) continue;
+		visited.add(id);
+		let element = calculatorStore.state.elements[id];
+		if (!element || element.loopOf) continue;
+
+		const recipeId = recipes.get(element.itemId);
+		const current =
+			element.source?.type === "recipe"
+				? (element.source as RecipeSource).recipeId
+				: undefined;
+		if (
+			recipeId !== undefined &&
+			recipeId !== current &&
+			(current !== undefined || !element.source)
+		) {
+			setElementRecipe(id, recipeId, true);
+			element = calculatorStore.state.elements[id];
+		}
+		if (element) queue.push(...element.inputs);
+	}
+}
+
 function expandElementRecursively(
 	element: CalculationElement,
 	globalDefaults: CalculatorState["globalDefaults"],
 	childElements: Record<string, CalculationElement>,
+	choices?: Map<number, PlanChoice>,
+	ancestors: Map<number, string> = new Map(),
 ): CalculationElement {
+	// An item already produced further up the chain is fed back from there
+	const loopOf = ancestors.get(element.itemId);
+	if (loopOf) return { ...element, loopOf };
+
+	const choice = choices?.get(element.itemId);
+	if (choice) {
+		return applyPlanChoice(
+			element,
+			choice,
+			globalDefaults,
+			childElements,
+			choices as Map<number, PlanChoice>,
+			ancestors,
+		);
+	}
+
 	// First check if this item can be mined or extracted
 	const miningTime = DSPData.getMiningTime(element.itemId);
 	if (miningTime !== undefined) {
-		return setElementToMining(element, miningTime);
+		return mineElement(element, miningTime, globalDefaults);
 	}
 
 	const extractionSpeed = DSPData.getExtractionSpeed(element.itemId);
 	if (extractionSpeed !== undefined) {
-		return setElementToExtraction(element, extractionSpeed);
+		return extractElement(element, extractionSpeed, globalDefaults);
+	}
+
+	if (getGatherer(element.itemId, globalDefaults)) {
+		return gatherElement(element, globalDefaults);
 	}
 
 	// Otherwise, try to find a recipe
-	const recipes = DSPData.getRecipesProducing(element.itemId);
+	const recipes = getAvailableRecipes(element.itemId);
 	if (recipes.length === 0) {
 		// No recipe available, return as-is
 		return element;
@@ -247,6 +751,7 @@ function expandElementRecursively(
 
 	// Use the first (default) recipe
 	const recipeId = recipes[0].ID;
+	const childAncestors = new Map(ancestors).set(element.itemId, element.id);
 
 	return expandElementWithRecipe(
 		element,
@@ -259,6 +764,8 @@ function expandElementRecursively(
 					child,
 					globalDefaults,
 					childElements,
+					choices,
+					childAncestors,
 				);
 				childElements[child.id] = expandedChild;
 			}
@@ -266,15 +773,97 @@ function expandElementRecursively(
 	);
 }
 
+function applyPlanChoice(
+	element: CalculationElement,
+	choice: PlanChoice,
+	globalDefaults: CalculatorState["globalDefaults"],
+	childElements: Record<string, CalculationElement>,
+	choices: Map<number, PlanChoice>,
+	ancestors: Map<number, string>,
+): CalculationElement {
+	if (!choice.source) return element;
+
+	if (choice.source.type === "mining") {
+		return mineElement(
+			element,
+			(choice.source as MiningSource).miningTime,
+			globalDefaults,
+			getMiningConfig(
+				{ ...element, source: choice.source, facility: choice.facility },
+				globalDefaults.mining,
+			),
+		);
+	}
+
+	if (choice.source.type === "extraction") {
+		const extractionSource = choice.source as ExtractionSource;
+		return extractElement(
+			element,
+			extractionSource.extractionSpeed,
+			globalDefaults,
+			extractionSource,
+		);
+	}
+
+	if (choice.source.type === "gathering") {
+		return gatherElement(
+			element,
+			globalDefaults,
+			choice.source as GatheringSource,
+		);
+	}
+
+	if (choice.source.type !== "recipe") return element;
+
+	const recipeSource = choice.source as RecipeSource;
+	const recipeType =
+		recipeSource.recipeType ??
+		DSPData.getRecipeById(recipeSource.recipeId)?.Type ??
+		"";
+	const choiceDefaults = choice.facility
+		? {
+				...globalDefaults,
+				facilities: {
+					...globalDefaults.facilities,
+					[recipeType]: choice.facility.itemId,
+				},
+				proliferator: choice.facility.modifier,
+			}
+		: globalDefaults;
+	const childAncestors = new Map(ancestors).set(element.itemId, element.id);
+
+	return expandElementWithRecipe(
+		element,
+		recipeSource.recipeId,
+		getContext(),
+		choiceDefaults,
+		(child) => {
+			if (!childElements[child.id]) {
+				childElements[child.id] = expandElementRecursively(
+					child,
+					globalDefaults,
+					childElements,
+					choices,
+					childAncestors,
+				);
+			}
+		},
+	);
+}
+
 export function setElementToMiningSource(elementId: string): void {
-	calculatorStore.setState((state) => {
+	updatePlan((state) => {
 		const element = state.elements[elementId];
 		if (!element) return state;
 
 		const miningTime = DSPData.getMiningTime(element.itemId);
 		if (!miningTime) return state;
 
-		const updated = setElementToMining(element, miningTime);
+		const updated = mineElement(
+			withoutLoop(element),
+			miningTime,
+			state.globalDefaults,
+		);
 
 		return {
 			...state,
@@ -284,14 +873,34 @@ export function setElementToMiningSource(elementId: string): void {
 }
 
 export function setElementToExtractionSource(elementId: string): void {
-	calculatorStore.setState((state) => {
+	updatePlan((state) => {
 		const element = state.elements[elementId];
 		if (!element) return state;
 
 		const extractionSpeed = DSPData.getExtractionSpeed(element.itemId);
 		if (!extractionSpeed) return state;
 
-		const updated = setElementToExtraction(element, extractionSpeed);
+		const updated = extractElement(
+			withoutLoop(element),
+			extractionSpeed,
+			state.globalDefaults,
+		);
+
+		return {
+			...state,
+			elements: { ...state.elements, [elementId]: updated },
+		};
+	});
+}
+
+export function setElementToGatheringSource(elementId: string): void {
+	updatePlan((state) => {
+		const element = state.elements[elementId];
+		if (!element || !getGatherer(element.itemId, state.globalDefaults)) {
+			return state;
+		}
+
+		const updated = gatherElement(withoutLoop(element), state.globalDefaults);
 
 		return {
 			...state,
@@ -301,7 +910,7 @@ export function setElementToExtractionSource(elementId: string): void {
 }
 
 export function clearElementSource(elementId: string): void {
-	calculatorStore.setState((state) => {
+	updatePlan((state) => {
 		const element = state.elements[elementId];
 		if (!element) return state;
 
@@ -309,15 +918,10 @@ export function clearElementSource(elementId: string): void {
 		const childrenToRemove = new Set<string>();
 		collectChildIds(elementId, state.elements, childrenToRemove);
 
-		// Remove children and update the element
-		const newElements = { ...state.elements };
-		for (const id of childrenToRemove) {
-			delete newElements[id];
-		}
-
 		// Reset the element to have no source
+		const newElements = { ...state.elements };
 		newElements[elementId] = {
-			...element,
+			...withoutLoop(element),
 			source: null,
 			facility: null,
 			inputs: [],
@@ -325,6 +929,15 @@ export function clearElementSource(elementId: string): void {
 			actualRate: 0,
 		};
 
+		// Remove children unless another branch still uses them
+		const stillReachable = new Set<string>();
+		for (const target of state.targets) {
+			collectElementIds(target.rootElementId, newElements, stillReachable);
+		}
+		for (const id of childrenToRemove) {
+			if (!stillReachable.has(id)) delete newElements[id];
+		}
+
 		return {
 			...state,
 			elements: newElements,
@@ -364,6 +977,10 @@ export function setDefaultFacility(
 	}));
 }
 
+/**
+ * Proliferator new recipe elements start with. Recipes that can't make extra
+ * products get speed mode at the same level instead of product mode.
+ */
 export function setDefaultProliferator(
 	mode: ProliferatorMode,
 	level: number,
@@ -377,39 +994,477 @@ export function setDefaultProliferator(
 	}));
 }
 
-export function updateNodePosition(
-	elementId: string,
-	x: number,
-	y: number,
-): void {
-	calculatorStore.setState((state) => {
-		const existingIndex = state.nodePositions.findIndex(
-			(np) => np.elementId === elementId,
+export function setDefaultMining(mining: MiningConfig): void {
+	calculatorStore.setState((state) => ({
+		...state,
+		globalDefaults: { ...state.globalDefaults, mining },
+	}));
+}
+
+/** Mining speed research multiplier, applied to every miner in the plan */
+export function setMiningSpeed(miningSpeed: number): void {
+	updatePlan((state) => {
+		const globalDefaults = { ...state.globalDefaults, miningSpeed };
+		// Extractors speed up too, and collectors burn a different share of their gas
+		const elements = Object.fromEntries(
+			Object.entries(state.elements).map(([id, element]) => {
+				const source = element.source as ExtractionSource | null;
+				if (source?.type !== "extraction") return [id, element];
+				return [
+					id,
+					extractElement(
+						element,
+						source.extractionSpeed,
+						globalDefaults,
+						source,
+					),
+				];
+			}),
 		);
+		return { ...state, globalDefaults, elements };
+	});
+}
 
-		let newPositions: NodePosition[];
-		if (existingIndex >= 0) {
-			newPositions = [...state.nodePositions];
-			newPositions[existingIndex] = { elementId, x, y };
-		} else {
-			newPositions = [...state.nodePositions, { elementId, x, y }];
-		}
+/** Gas or ice giant an extraction element's orbital collectors orbit */
+export function setElementExtractionTheme(
+	elementId: string,
+	themeId: number,
+): void {
+	updatePlan((state) => {
+		const element = state.elements[elementId];
+		if (element?.source?.type !== "extraction") return state;
 
-		return { ...state, nodePositions: newPositions };
+		const source = element.source as ExtractionSource;
+		const updated = extractElement(
+			element,
+			source.extractionSpeed,
+			state.globalDefaults,
+			{ ...source, themeId },
+		);
+		return {
+			...state,
+			elements: { ...state.elements, [elementId]: updated },
+		};
 	});
 }
 
-export function updateTotalsNodePosition(
-	itemId: number,
-	x: number,
-	y: number,
+/** Crude oil per second of the seep an element's Oil Extractors sit on */
+export function setElementSeepYield(
+	elementId: string,
+	seepYield: number,
 ): void {
-	calculatorStore.setState((state) => {
-		const existingIndex = state.totalsNodePositions.findIndex(
-			(np) => np.itemId === itemId,
-		);
+	updatePlan((state) => {
+		const element = state.elements[elementId];
+		if (element?.source?.type !== "extraction") return state;
 
-		let newPositions: TotalsNodePosition[];
+		const source = element.source as ExtractionSource;
+		const updated = extractElement(
+			element,
+			source.extractionSpeed,
+			state.globalDefaults,
+			{ ...source, seepYield },
+		);
+		return {
+			...state,
+			elements: { ...state.elements, [elementId]: updated },
+		};
+	});
+}
+
+/** Lens and day/night continuity of an element's Ray Receivers */
+export function updateElementRayReceiver(
+	elementId: string,
+	config: RayReceiverConfig,
+): void {
+	updatePlan((state) => {
+		const element = state.elements[elementId];
+		if (element?.source?.type !== "gathering") return state;
+
+		const updated = gatherElement(element, state.globalDefaults, config);
+		return {
+			...state,
+			elements: { ...state.elements, [elementId]: updated },
+		};
+	});
+}
+
+/** Lens and continuity new Ray Receiver elements start with */
+export function setDefaultRayReceiver(rayReceiver: RayReceiverConfig): void {
+	calculatorStore.setState((state) => ({
+		...state,
+		globalDefaults: { ...state.globalDefaults, rayReceiver },
+	}));
+}
+
+/** Dyson sphere power the plan's Ray Receivers can draw; null for unlimited */
+export function setDysonSpherePower(dysonSpherePower: number | null): void {
+	calculatorStore.setState((state) => ({
+		...state,
+		globalDefaults: {
+			...state.globalDefaults,
+			dysonSpherePower: dysonSpherePower ?? undefined,
+		},
+	}));
+}
+
+export function updateElementMiner(
+	elementId: string,
+	mining: MiningConfig,
+): void {
+	updatePlan((state) => {
+		const element = state.elements[elementId];
+		if (element?.source?.type !== "mining") return state;
+
+		const updated = mineElement(
+			element,
+			(element.source as MiningSource).miningTime,
+			state.globalDefaults,
+			mining,
+		);
+		return {
+			...state,
+			elements: { ...state.elements, [elementId]: updated },
+		};
+	});
+}
+
+export function setPlanMode(planMode: PlanMode): void {
+	calculatorStore.setState((state) => {
+		if (state.planMode === planMode) return state;
+		// Trees can be merged or solved in place; anything else is rebuilt
+		if (
+			planMode === "solver" ||
+			(planMode === "shared" && state.planMode === "tree")
+		) {
+			return derivePlan({ ...state, planMode });
+		}
+		return derivePlan(rebuildTargetTrees({ ...state, planMode }));
+	});
+}
+
+function updatePlan(
+	updater: (state: CalculatorState) => CalculatorState,
+): void {
+	calculatorStore.setState((state) => {
+		const next = updater(state);
+		return next === state ? state : derivePlan(next);
+	});
+}
+
+function derivePlan(state: CalculatorState): CalculatorState {
+	return syncAutoTargets(balancePlan(state));
+}
+
+const AUTO_SYNC_ITERATIONS = 10;
+const AUTO_SYNC_EPSILON = 1e-9;
+
+/** Research items the plan's labs use up per second */
+function getResearchDemand(state: CalculatorState): Map<number, number> {
+	const demand = new Map<number, number>();
+	for (const { itemRates } of getResearchLabs(state)) {
+		for (const [itemId, rate] of itemRates) {
+			demand.set(itemId, (demand.get(itemId) ?? 0) + rate);
+		}
+	}
+	return demand;
+}
+
+// Rates the automatic targets of each kind should run at, keyed by item
+function getAutoTargetDemand(
+	state: CalculatorState,
+): Record<AutoTargetKind, Map<number, number>> {
+	const fuel = new Map<number, number>();
+	const generation = getPowerGeneration(state);
+	if (generation?.fuelItemId && generation.fuelRate > 0) {
+		fuel.set(generation.fuelItemId, generation.fuelRate);
+	}
+
+	return {
+		fuel,
+		proliferator: state.produceProliferators
+			? getProliferatorDemand(state)
+			: new Map(),
+		research: getResearchDemand(state),
+		logistics: getLogisticsDemand(state),
+	};
+}
+
+// Keep the automatic targets at the rates the plan needs. Fuel production
+// draws power and proliferator production gets sprayed too, so the rates are
+// refined until they settle.
+function syncAutoTargets(state: CalculatorState): CalculatorState {
+	let current = state;
+	for (let i = 0; i < AUTO_SYNC_ITERATIONS; i++) {
+		const demand = getAutoTargetDemand(current);
+		let next = current;
+
+		for (const target of current.targets) {
+			if (!target.auto) continue;
+			const rate = demand[target.auto].get(target.itemId) ?? 0;
+			if (rate <= 0) {
+				next = withoutTarget(next, target.id);
+			} else if (Math.abs(target.targetRate - rate) >= AUTO_SYNC_EPSILON) {
+				next = {
+					...next,
+					targets: next.targets.map((t) =>
+						t.id === target.id ? { ...t, targetRate: rate } : t,
+					),
+				};
+			}
+		}
+
+		for (const [kind, rates] of Object.entries(demand)) {
+			for (const [itemId, rate] of rates) {
+				const exists = current.targets.some(
+					(t) => t.auto === kind && t.itemId === itemId,
+				);
+				if (exists || rate <= 0) continue;
+				next = withTarget(
+					next,
+					generateElementId(),
+					itemId,
+					rate,
+					kind as AutoTargetKind,
+				);
+			}
+		}
+
+		if (next === current) return current;
+		current = balancePlan(next);
+	}
+	return current;
+}
+
+function balancePlan(state: CalculatorState): CalculatorState {
+	if (state.planMode === "shared") {
+		const merged = mergeSharedElements(state.targets, state.elements);
+		const targets = state.targets.map((t) => ({
+			...t,
+			rootElementId: merged.rootElementIds[t.id] ?? t.rootElementId,
+		}));
+		return {
+			...state,
+			targets,
+			elements: allocateByproducts(targets, merged.elements, getContext(state)),
+		};
+	}
+
+	if (state.planMode !== "solver") {
+		return {
+			...state,
+			elements: allocateByproducts(
+				state.targets,
+				state.elements,
+				getContext(state),
+			),
+		};
+	}
+
+	const solved = solveProductionPlan(
+		state.targets,
+		collectPlanChoices(state.targets, state.elements),
+		getContext(state),
+		state.globalDefaults,
+	);
+	if (!solved) return { ...state, solverStatus: "infeasible" };
+
+	return {
+		...state,
+		solverStatus: "solved",
+		targets: state.targets.map((t) => ({
+			...t,
+			rootElementId: solved.rootElementIds[t.id] ?? t.rootElementId,
+		})),
+		elements: solved.elements,
+	};
+}
+
+function rebuildTargetTrees(state: CalculatorState): CalculatorState {
+	const choices = collectPlanChoices(state.targets, state.elements);
+	const elements: Record<string, CalculationElement> = {};
+
+	const targets = state.targets.map((target) => {
+		const root = createBaseElement(target.itemId, target.targetRate, null, 0);
+		elements[root.id] = expandElementRecursively(
+			root,
+			state.globalDefaults,
+			elements,
+			choices,
+		);
+		return { ...target, rootElementId: root.id };
+	});
+
+	return { ...state, targets, elements, nodePositions: [] };
+}
+
+export function setPowerGeneration(
+	powerGeneration: PowerGenerationConfig | null,
+): void {
+	updatePlan((state) => ({ ...state, powerGeneration }));
+}
+
+/** Research speed multiplier for every lab in the plan */
+export function setResearchSpeed(researchSpeed: number): void {
+	updatePlan((state) => ({
+		...state,
+		globalDefaults: { ...state.globalDefaults, researchSpeed },
+	}));
+}
+
+/** Labs per stack, raised by Vertical Construction research */
+export function setLabStackHeight(labStackHeight: number): void {
+	calculatorStore.setState((state) => ({
+		...state,
+		globalDefaults: { ...state.globalDefaults, labStackHeight },
+	}));
+}
+
+/** Turn the proliferators the plan uses up into automatic targets */
+export function setProduceProliferators(produceProliferators: boolean): void {
+	updatePlan((state) => ({ ...state, produceProliferators }));
+}
+
+/** Offers only the recipes and buildings the research profile has unlocked */
+export function setResearchEnabled(enabled: boolean): void {
+	calculatorStore.setState((state) => ({
+		...state,
+		research: {
+			completedTechIds: state.research?.completedTechIds ?? [],
+			enabled,
+		},
+	}));
+}
+
+/**
+ * Ticks a tech off as researched together with everything it needs, or
+ * unticks just that tech. Only recipes expanded afterwards follow the change.
+ */
+export function setTechCompleted(techId: number, completed: boolean): void {
+	calculatorStore.setState((state) => {
+		const current = state.research?.completedTechIds ?? [];
+		const completedTechIds = completed
+			? Array.from(
+					new Set([
+						...current,
+						techId,
+						...DSPData.getTechPrerequisites(techId),
+					]),
+				)
+			: current.filter((id) => id !== techId);
+		return {
+			...state,
+			research: { enabled: state.research?.enabled ?? true, completedTechIds },
+		};
+	});
+}
+
+export function setRounding(rounding: RoundingConfig): void {
+	updatePlan((state) => ({ ...state, rounding }));
+}
+
+/** Override the plan rounding for one element; null falls back to the plan */
+export function setElementRounding(
+	elementId: string,
+	mode: RoundingMode | null,
+): void {
+	updatePlan((state) => {
+		const element = state.elements[elementId];
+		if (!element) return state;
+
+		const { rounding: _rounding, ...rest } = element;
+		return {
+			...state,
+			elements: {
+				...state.elements,
+				[elementId]: mode ? { ...rest, rounding: mode } : rest,
+			},
+		};
+	});
+}
+
+/** Work power of every facility in the plan, in watts */
+export function getPlanPower(
+	state: CalculatorState = calculatorStore.state,
+): number {
+	const labPower = getResearchLabs(state).reduce(
+		(sum, labs) => sum + labs.power,
+		0,
+	);
+	return calculateFacilitySummary(
+		state.targets,
+		state.elements,
+		BuildingDetailsService.getWorkPower,
+	).reduce((sum, facility) => sum + facility.power, labPower);
+}
+
+/** Proliferator items per second the plan's sprayed recipes use up */
+export function getProliferatorDemand(
+	state: CalculatorState = calculatorStore.state,
+): Map<number, number> {
+	return calculateProliferatorDemand(
+		state.targets,
+		state.elements,
+		getContext(state),
+	);
+}
+
+/** Generators and fuel needed to power the plan, if a generator is chosen */
+export function getPowerGeneration(
+	state: CalculatorState = calculatorStore.state,
+): PowerGeneration | null {
+	const config = state.powerGeneration;
+	if (!config) return null;
+
+	const power = BuildingDetailsService.getGenerationPower(
+		config.generatorItemId,
+	);
+	if (power === undefined) return null;
+
+	const fuel =
+		config.fuelItemId !== null
+			? DSPData.getItemById(config.fuelItemId)
+			: undefined;
+
+	return calculatePowerGeneration(
+		getPlanPower(state),
+		{ itemId: config.generatorItemId, power },
+		fuel ? { itemId: fuel.ID, heatValue: fuel.HeatValue } : null,
+	);
+}
+
+export function updateNodePosition(
+	elementId: string,
+	x: number,
+	y: number,
+): void {
+	calculatorStore.setState((state) => {
+		const existingIndex = state.nodePositions.findIndex(
+			(np) => np.elementId === elementId,
+		);
+
+		let newPositions: NodePosition[];
+		if (existingIndex >= 0) {
+			newPositions = [...state.nodePositions];
+			newPositions[existingIndex] = { elementId, x, y };
+		} else {
+			newPositions = [...state.nodePositions, { elementId, x, y }];
+		}
+
+		return { ...state, nodePositions: newPositions };
+	});
+}
+
+export function updateTotalsNodePosition(
+	itemId: number,
+	x: number,
+	y: number,
+): void {
+	calculatorStore.setState((state) => {
+		const existingIndex = state.totalsNodePositions.findIndex(
+			(np) => np.itemId === itemId,
+		);
+
+		let newPositions: TotalsNodePosition[];
 		if (existingIndex >= 0) {
 			newPositions = [...state.totalsNodePositions];
 			newPositions[existingIndex] = { itemId, x, y };
@@ -442,41 +1497,372 @@ export function selectElement(elementId: string | null): void {
 export function getPerFacilityRate(itemId: number): number {
 	const miningTime = DSPData.getMiningTime(itemId);
 	if (miningTime !== undefined) {
-		return (1 / miningTime) * 60; // calculateMiningRate inline
+		const { globalDefaults } = calculatorStore.state;
+		const mined = mineElement(
+			createBaseElement(itemId, 0, null, 0),
+			miningTime,
+			globalDefaults,
+		);
+		return calculateMinerRate(
+			mined.source as MiningSource,
+			mined.facility,
+			globalDefaults.miningSpeed,
+		);
 	}
 
 	const extractionSpeed = DSPData.getExtractionSpeed(itemId);
 	if (extractionSpeed !== undefined) {
-		return extractionSpeed;
+		return (
+			getExtractor(itemId, calculatorStore.state.globalDefaults)?.source
+				.extractionSpeed ?? extractionSpeed
+		);
 	}
 
-	const recipes = DSPData.getRecipesProducing(itemId);
+	const gatherer = getGatherer(itemId, calculatorStore.state.globalDefaults);
+	if (gatherer) return gatherer.source.gatheringSpeed;
+
+	const recipes = getAvailableRecipes(itemId);
 	if (recipes.length === 0) return 0;
 	const recipe = recipes[0];
 	const outputIndex = recipe.Results.indexOf(itemId);
 	if (outputIndex === -1) return 0;
 	const outputCount = recipe.ResultCounts[outputIndex] ?? 0;
 	const { globalDefaults } = calculatorStore.state;
-	const facilityItemId = globalDefaults.facilities[recipe.Type] ?? 0;
+	const facilityItemId = getUnlockedFacility(
+		globalDefaults.facilities[recipe.Type] ?? 0,
+		recipe.Type,
+		calculatorStore.state,
+	);
 	const speedMultiplier =
 		BuildingDetailsService.getSpeedMultiplier(facilityItemId) ?? 1;
 	const baseRate = outputCount / (recipe.TimeSpend / 60);
 	return baseRate * speedMultiplier;
 }
 
-function autoAssignSource(element: CalculationElement): CalculationElement {
+export interface RecipeItemRate {
+	itemId: number;
+	rate: number;
+}
+
+export interface RecipeRates {
+	facilityItemId: number;
+	inputs: RecipeItemRate[];
+	outputs: RecipeItemRate[];
+}
+
+/**
+ * Items/sec one facility running the recipe takes in and puts out, the
+ * recipe type's default facility unless another one is given
+ */
+export function getRecipeRates(
+	recipeId: number,
+	state: CalculatorState = calculatorStore.state,
+	facilityItemId?: number,
+): RecipeRates | undefined {
+	const context = getContext(state);
+	const recipe = context.getRecipeById(recipeId);
+	if (!recipe) return undefined;
+
+	const facility = withValidModifier(
+		recipe,
+		createFacilityConfig(
+			recipe.type,
+			context,
+			state.globalDefaults,
+			facilityItemId,
+		),
+	);
+	return {
+		facilityItemId: facility.itemId,
+		inputs: recipe.inputs.map((input) => ({
+			itemId: input.itemId,
+			rate: calculateRecipeInputRate(recipe, input.count, facility),
+		})),
+		outputs: recipe.outputs.map((output) => ({
+			itemId: output.itemId,
+			rate: calculateRecipeOutputRate(recipe, output.count, facility),
+		})),
+	};
+}
+
+function resolveChild(
+	child: CalculationElement,
+	ancestors: Map<number, string>,
+	globalDefaults: CalculatorState["globalDefaults"],
+): CalculationElement {
+	const loopOf = ancestors.get(child.itemId);
+	return loopOf
+		? { ...child, loopOf }
+		: autoAssignSource(child, globalDefaults);
+}
+
+// Items on the path from the root to this element, mapped to the nearest
+// element producing them
+function getAncestorItems(
+	elementId: string,
+	elements: Record<string, CalculationElement>,
+): Map<number, string> {
+	const ancestors = new Map<number, string>();
+	const seen = new Set<string>();
+	let current: CalculationElement | undefined = elements[elementId];
+	while (current && !seen.has(current.id)) {
+		seen.add(current.id);
+		if (!ancestors.has(current.itemId)) {
+			ancestors.set(current.itemId, current.id);
+		}
+		current = elements[current.parentIds[0]];
+	}
+	return ancestors;
+}
+
+function mineElement(
+	element: CalculationElement,
+	miningTime: number,
+	globalDefaults: CalculatorState["globalDefaults"],
+	mining: MiningConfig = globalDefaults.mining ?? DEFAULT_MINING_CONFIG,
+): CalculationElement {
+	return setElementToMining(
+		element,
+		miningTime,
+		mining,
+		globalDefaults.miningSpeed,
+	);
+}
+
+/**
+ * Orbital collector source for a gas giant item, on the given theme or on the
+ * theme yielding the most of it
+ */
+function getCollectorSource(
+	itemId: number,
+	miningSpeed?: number,
+	themeId?: number,
+): ExtractionSource | undefined {
+	let best: ExtractionSource | undefined;
+	for (const theme of DSPData.getGasGiantThemes(itemId)) {
+		if (themeId && theme.ID !== themeId) continue;
+		const collection = calculateOrbitalCollection(
+			theme.GasItems.map((gasItemId, index) => ({
+				itemId: gasItemId,
+				speed: theme.GasSpeeds[index] ?? 0,
+				heatValue: DSPData.getItemById(gasItemId)?.HeatValue ?? 0,
+			})),
+			miningSpeed,
+		);
+		const rate = collection.rates.get(itemId) ?? 0;
+		if (!best || rate > best.extractionSpeed) {
+			best = {
+				type: "extraction",
+				themeId: theme.ID,
+				extractionSpeed: rate,
+				isGas: true,
+				fuelShare: collection.fuelShare,
+			};
+		}
+	}
+	return best;
+}
+
+/**
+ * Building extracting an item: orbital collectors, an Oil Extractor on a seep
+ * or a Water Pump. Settings of the previous source, such as its theme or seep
+ * yield, carry over.
+ */
+function getExtractor(
+	itemId: number,
+	globalDefaults: CalculatorState["globalDefaults"],
+	previous?: Partial<ExtractionSource>,
+): Extractor | undefined {
+	const miningSpeed = globalDefaults.miningSpeed ?? 1;
+
+	const collector = getCollectorSource(itemId, miningSpeed, previous?.themeId);
+	if (collector) {
+		return { facilityItemId: ORBITAL_COLLECTOR_ITEM_ID, source: collector };
+	}
+
+	if (itemId === DSPData.crudeOilItemId) {
+		const seepYield = previous?.seepYield ?? DEFAULT_OIL_SEEP_YIELD;
+		return {
+			facilityItemId: OIL_EXTRACTOR_ITEM_ID,
+			source: {
+				type: "extraction",
+				themeId: 0,
+				extractionSpeed: calculateOilExtraction(seepYield, miningSpeed),
+				isGas: false,
+				seepYield,
+			},
+		};
+	}
+
+	const pumpSpeed =
+		BuildingDetailsService.getGatheringSpeed(WATER_PUMP_ITEM_ID);
+	if (pumpSpeed && DSPData.getWaterThemes(itemId).length > 0) {
+		return {
+			facilityItemId: WATER_PUMP_ITEM_ID,
+			source: {
+				type: "extraction",
+				themeId: 0,
+				extractionSpeed: pumpSpeed * miningSpeed,
+				isGas: false,
+			},
+		};
+	}
+
+	return undefined;
+}
+
+function extractElement(
+	element: CalculationElement,
+	extractionSpeed: number,
+	globalDefaults: CalculatorState["globalDefaults"],
+	previous?: Partial<ExtractionSource>,
+): CalculationElement {
+	const extractor = getExtractor(element.itemId, globalDefaults, previous);
+	if (!extractor) return setElementToExtraction(element, extractionSpeed);
+
+	const { type: _type, extractionSpeed: speed, ...details } = extractor.source;
+	return setElementToExtraction(
+		element,
+		speed,
+		extractor.facilityItemId,
+		details,
+	);
+}
+
+/**
+ * Ray Receivers turning Dyson sphere power into critical photons. Lens and
+ * continuity of the previous source carry over, otherwise the plan's
+ * defaults apply.
+ */
+export function getGatherer(
+	itemId: number,
+	globalDefaults: CalculatorState["globalDefaults"],
+	previous?: Partial<RayReceiverConfig>,
+): Gatherer | undefined {
+	if (itemId !== CRITICAL_PHOTON_ITEM_ID) return undefined;
+
+	const defaults = globalDefaults.rayReceiver ?? DEFAULT_RAY_RECEIVER_CONFIG;
+	const config: RayReceiverConfig = {
+		lens: previous?.lens ?? defaults.lens,
+		continuity: previous?.continuity ?? defaults.continuity,
+	};
+	const gathering = calculatePhotonGathering(
+		config,
+		DSPData.getItemById(itemId)?.Potential ?? 0,
+	);
+	return {
+		facilityItemId: RAY_RECEIVER_ITEM_ID,
+		source: {
+			type: "gathering",
+			...config,
+			gatheringSpeed: gathering.rate,
+			spherePower: gathering.spherePower,
+			lensRate: gathering.lensRate,
+		},
+	};
+}
+
+function gatherElement(
+	element: CalculationElement,
+	globalDefaults: CalculatorState["globalDefaults"],
+	previous?: Partial<RayReceiverConfig>,
+): CalculationElement {
+	const gatherer = getGatherer(element.itemId, globalDefaults, previous);
+	if (!gatherer) return element;
+
+	const { type: _type, gatheringSpeed, ...details } = gatherer.source;
+	return setElementToGathering(
+		element,
+		gatheringSpeed,
+		gatherer.facilityItemId,
+		details,
+	);
+}
+
+function withoutLoop(element: CalculationElement): CalculationElement {
+	const { loopOf: _loopOf, ...rest } = element;
+	return rest;
+}
+
+function autoAssignSource(
+	element: CalculationElement,
+	globalDefaults: CalculatorState["globalDefaults"],
+): CalculationElement {
 	const miningTime = DSPData.getMiningTime(element.itemId);
-	if (miningTime !== undefined) return setElementToMining(element, miningTime);
+	if (miningTime !== undefined)
+		return mineElement(element, miningTime, globalDefaults);
 
 	const extractionSpeed = DSPData.getExtractionSpeed(element.itemId);
 	if (extractionSpeed !== undefined)
-		return setElementToExtraction(element, extractionSpeed);
+		return extractElement(element, extractionSpeed, globalDefaults);
+
+	return gatherElement(element, globalDefaults);
+}
 
-	return element;
+// Unlocked recipes are worked out once per completed-tech list
+let unlockedRecipes: { techIds: number[]; recipeIds: Set<number> } | null =
+	null;
+
+/** Recipes research has unlocked, or null when the plan ignores research */
+function getUnlockedRecipeIds(state: CalculatorState): Set<number> | null {
+	const research = state.research;
+	if (!research?.enabled) return null;
+	if (unlockedRecipes?.techIds !== research.completedTechIds) {
+		unlockedRecipes = {
+			techIds: research.completedTechIds,
+			recipeIds: DSPData.getUnlockedRecipeIds(research.completedTechIds),
+		};
+	}
+	return unlockedRecipes.recipeIds;
 }
 
-function getContext() {
+export function isRecipeUnlocked(
+	recipeId: number,
+	state: CalculatorState = calculatorStore.state,
+): boolean {
+	return getUnlockedRecipeIds(state)?.has(recipeId) ?? true;
+}
+
+/** Recipes for the item that research has unlocked, default first */
+export function getAvailableRecipes(
+	itemId: number,
+	state: CalculatorState = calculatorStore.state,
+): Recipe[] {
+	return DSPData.getRecipesProducing(itemId).filter((recipe) =>
+		isRecipeUnlocked(recipe.ID, state),
+	);
+}
+
+/** Buildings unlock with any recipe that makes them */
+export function isBuildingUnlocked(
+	itemId: number,
+	state: CalculatorState = calculatorStore.state,
+): boolean {
+	const recipes = DSPData.getRecipesProducing(itemId);
+	return (
+		recipes.length === 0 ||
+		recipes.some((recipe) => isRecipeUnlocked(recipe.ID, state))
+	);
+}
+
+/** The facility if it is unlocked, else the fastest unlocked one of its kind */
+function getUnlockedFacility(
+	facilityItemId: number,
+	recipeType: string,
+	state: CalculatorState,
+): number {
+	if (isBuildingUnlocked(facilityItemId, state)) return facilityItemId;
+	const unlocked = BuildingDetailsService.getFacilitiesForRecipeType(
+		recipeType,
+	).filter((facility) => isBuildingUnlocked(facility.itemId, state));
+	return unlocked.at(-1)?.itemId ?? facilityItemId;
+}
+
+// Updaters pass their state, since the store still holds the previous one
+function getContext(state: CalculatorState = calculatorStore.state) {
 	return {
+		rounding: state.rounding,
+		miningSpeed: state.globalDefaults.miningSpeed,
 		getRecipeById: (id: number) => {
 			const recipe = DSPData.getRecipeById(id);
 			if (!recipe) return undefined;
@@ -492,15 +1878,16 @@ function getContext() {
 					itemId,
 					count: recipe.ResultCounts[index] ?? 0,
 				})),
+				nonProductive: !DSPData.canRecipeUseProductMode(recipe.ID),
 			};
 		},
 		getItemById: (id: number) => DSPData.getItemById(id),
 		getDefaultRecipeForItem: (itemId: number) => {
-			const recipes = DSPData.getRecipesProducing(itemId);
+			const recipes = getAvailableRecipes(itemId, state);
 			return recipes.length > 0 ? recipes[0].ID : undefined;
 		},
 		getDefaultFacilityForRecipeType: (recipeType: string) =>
-			calculatorStore.state.globalDefaults.facilities[recipeType],
+			state.globalDefaults.facilities[recipeType],
 		getFacilityData: (itemId: number) => {
 			const speedMultiplier = BuildingDetailsService.getSpeedMultiplier(itemId);
 			if (speedMultiplier !== undefined) {
@@ -510,11 +1897,16 @@ function getContext() {
 		},
 		getMiningTime: (itemId: number) => DSPData.getMiningTime(itemId),
 		getExtractionSpeed: (itemId: number) => DSPData.getExtractionSpeed(itemId),
+		getExtractor: (itemId: number) =>
+			getExtractor(itemId, state.globalDefaults),
+		getGatherer: (itemId: number) => getGatherer(itemId, state.globalDefaults),
+		getUnlockedFacility: (facilityItemId: number, recipeType: string) =>
+			getUnlockedFacility(facilityItemId, recipeType, state),
 	};
 }
 
 export function updateTargetRate(targetId: string, newRate: number): void {
-	calculatorStore.setState((state) => {
+	updatePlan((state) => {
 		const target = state.targets.find((t) => t.id === targetId);
 		if (!target) return state;
 
@@ -547,8 +1939,9 @@ export function updateRootFacility(
 	targetId: string,
 	facilityItemId: number,
 	explicitCount?: number,
+	beltItemId?: number,
 ): void {
-	calculatorStore.setState((state) => {
+	updatePlan((state) => {
 		const target = state.targets.find((t) => t.id === targetId);
 		if (!target) return state;
 
@@ -557,8 +1950,7 @@ export function updateRootFacility(
 
 		if (rootElement.source.type !== "recipe") return state;
 
-		const recipeSource =
-			rootElement.source as import("../calculator/models").RecipeSource;
+		const recipeSource = rootElement.source as RecipeSource;
 		const recipe = getContext().getRecipeById(recipeSource.recipeId);
 		if (!recipe) return state;
 
@@ -567,30 +1959,28 @@ export function updateRootFacility(
 		);
 		if (!targetOutput) return state;
 
-		const speedMultiplier =
-			BuildingDetailsService.getSpeedMultiplier(facilityItemId) ?? 1;
-		const modifier = rootElement.facility.modifier;
+		const count = explicitCount ?? rootElement.facility.count;
+		const facility: FacilityConfig = {
+			...rootElement.facility,
+			itemId: facilityItemId,
+			speedMultiplier:
+				BuildingDetailsService.getSpeedMultiplier(facilityItemId) ?? 1,
+			beltItemId: beltItemId ?? rootElement.facility.beltItemId,
+			count,
+		};
 
-		const outputRatePerFacility = calculateOutputRate(
+		const outputRatePerFacility = calculateRecipeOutputRate(
+			recipe,
 			targetOutput.count,
-			recipe.timeSpend,
-			speedMultiplier,
-			modifier,
+			facility,
 		);
-
-		const count = explicitCount ?? rootElement.facility.count;
 		const newRate = outputRatePerFacility * count;
 
 		const updatedRoot: CalculationElement = {
 			...rootElement,
 			requiredRate: newRate,
 			actualRate: newRate,
-			facility: {
-				...rootElement.facility,
-				itemId: facilityItemId,
-				speedMultiplier,
-				count,
-			},
+			facility,
 		};
 
 		const elementsWithRoot = {
@@ -607,12 +1997,7 @@ export function updateRootFacility(
 			if (!input) continue;
 
 			const inputRate =
-				calculateInputRate(
-					input.count,
-					recipe.timeSpend,
-					speedMultiplier,
-					modifier,
-				) * count;
+				calculateRecipeInputRate(recipe, input.count, facility) * count;
 
 			elementsWithRoot[childId] = { ...child, requiredRate: inputRate };
 		}
@@ -633,13 +2018,7 @@ export function updateRootFacility(
 			.filter((o) => o.itemId !== rootElement.itemId)
 			.map((output) => ({
 				itemId: output.itemId,
-				rate:
-					calculateOutputRate(
-						output.count,
-						recipe.timeSpend,
-						speedMultiplier,
-						modifier,
-					) * count,
+				rate: calculateRecipeOutputRate(recipe, output.count, facility) * count,
 				consumedBy: [] as string[],
 			}));
 
@@ -665,14 +2044,14 @@ export function updateRootFacility(
 export function updateElementFacilityType(
 	elementId: string,
 	facilityItemId: number,
+	beltItemId?: number,
 ): void {
-	calculatorStore.setState((state) => {
+	updatePlan((state) => {
 		const element = state.elements[elementId];
 		if (!element?.source || !element.facility) return state;
 		if (element.source.type !== "recipe") return state;
 
-		const recipeSource =
-			element.source as import("../calculator/models").RecipeSource;
+		const recipeSource = element.source as RecipeSource;
 		const recipe = getContext().getRecipeById(recipeSource.recipeId);
 		if (!recipe) return state;
 
@@ -681,15 +2060,18 @@ export function updateElementFacilityType(
 		);
 		if (!targetOutput) return state;
 
-		const speedMultiplier =
-			BuildingDetailsService.getSpeedMultiplier(facilityItemId) ?? 1;
-		const modifier = element.facility.modifier;
+		const facility: FacilityConfig = {
+			...element.facility,
+			itemId: facilityItemId,
+			speedMultiplier:
+				BuildingDetailsService.getSpeedMultiplier(facilityItemId) ?? 1,
+			beltItemId: beltItemId ?? element.facility.beltItemId,
+		};
 
-		const outputRate = calculateOutputRate(
+		const outputRate = calculateRecipeOutputRate(
+			recipe,
 			targetOutput.count,
-			recipe.timeSpend,
-			speedMultiplier,
-			modifier,
+			facility,
 		);
 
 		const facilitiesNeeded = calculateRequiredFacilities(
@@ -702,24 +2084,15 @@ export function updateElementFacilityType(
 			.map((output) => ({
 				itemId: output.itemId,
 				rate:
-					calculateOutputRate(
-						output.count,
-						recipe.timeSpend,
-						speedMultiplier,
-						modifier,
-					) * facilitiesNeeded,
+					calculateRecipeOutputRate(recipe, output.count, facility) *
+					facilitiesNeeded,
 				consumedBy: [] as string[],
 			}));
 
 		const updated: CalculationElement = {
 			...element,
 			actualRate: outputRate * facilitiesNeeded,
-			facility: {
-				...element.facility,
-				itemId: facilityItemId,
-				speedMultiplier,
-				count: facilitiesNeeded,
-			},
+			facility: { ...facility, count: facilitiesNeeded },
 			byproducts,
 		};
 
@@ -731,122 +2104,192 @@ export function updateElementFacilityType(
 }
 
 function getProliferatorItemIdForLevel(level: number): number {
-	switch (level) {
-		case 1:
-			return 1141; // Mk.I
-		case 2:
-			return 1142; // Mk.II
-		case 3:
-			return 1143; // Mk.III
-		default:
-			return 1141;
-	}
+	return PROLIFERATOR_ITEM_IDS[level] ?? PROLIFERATOR_ITEM_IDS[1];
 }
 
-export function updateElementProliferator(
+/**
+ * Sets the proliferator of one recipe element, rescaling its facilities and
+ * the rates its inputs need.
+ */
+function withElementProliferator(
+	state: CalculatorState,
 	elementId: string,
 	mode: ProliferatorMode,
 	level: number,
 	proliferatorItemId?: number,
-): void {
-	calculatorStore.setState((state) => {
-		const element = state.elements[elementId];
-		if (!element?.source || !element.facility) return state;
-		if (element.source.type !== "recipe") return state;
+): CalculatorState {
+	const element = state.elements[elementId];
+	if (!element?.source || !element.facility) return state;
+	if (element.source.type !== "recipe") return state;
+
+	const recipeSource = element.source as RecipeSource;
+	const recipe = getContext(state).getRecipeById(recipeSource.recipeId);
+	if (!recipe) return state;
+
+	// Determine which proliferator item to use based on level
+	const prolifItemId =
+		proliferatorItemId ?? getProliferatorItemIdForLevel(level);
+
+	// Create updated modifier
+	const newModifier: import("../calculator/models").ModifierConfig = {
+		mode,
+		level,
+	};
 
-		const recipeSource =
-			element.source as import("../calculator/models").RecipeSource;
-		const recipe = getContext().getRecipeById(recipeSource.recipeId);
-		if (!recipe) return state;
+	// Recalculate output rate with new modifier
+	const targetOutput = recipe.outputs.find((o) => o.itemId === element.itemId);
+	if (!targetOutput) return state;
 
-		// Determine which proliferator item to use based on level
-		const prolifItemId =
-			proliferatorItemId ?? getProliferatorItemIdForLevel(level);
+	// Product mode on a recipe without extra products falls back to speed
+	const facility: FacilityConfig = withValidModifier(recipe, {
+		...element.facility,
+		modifier: newModifier,
+	});
+	const outputRate = calculateRecipeOutputRate(
+		recipe,
+		targetOutput.count,
+		facility,
+	);
 
-		// Create updated modifier
-		const newModifier: import("../calculator/models").ModifierConfig = {
-			mode,
-			level,
-		};
+	const facilitiesNeeded = calculateRequiredFacilities(
+		element.requiredRate,
+		outputRate,
+	);
 
-		// Recalculate output rate with new modifier
-		const targetOutput = recipe.outputs.find(
-			(o) => o.itemId === element.itemId,
-		);
-		if (!targetOutput) return state;
+	// Calculate proliferator consumption
+	const prolifConsumption = calculateElementProliferation(
+		recipe,
+		{ ...facility, proliferatorItemId: prolifItemId },
+		facilitiesNeeded,
+		recipe.inputs.map(
+			(input) =>
+				calculateRecipeInputRate(recipe, input.count, facility) *
+				facilitiesNeeded,
+		),
+	);
 
-		const outputRate = calculateOutputRate(
-			targetOutput.count,
-			recipe.timeSpend,
-			element.facility.speedMultiplier,
-			newModifier,
-		);
+	// Update the element
+	const updatedElement: CalculationElement = {
+		...element,
+		facility: {
+			...element.facility,
+			modifier: facility.modifier,
+			proliferatorItemId: mode === "none" ? undefined : prolifItemId,
+		},
+		proliferatorConsumption: prolifConsumption,
+	};
 
-		const facilitiesNeeded = calculateRequiredFacilities(
-			element.requiredRate,
-			outputRate,
-		);
+	// Recalculate children's required rates
+	const elementsWithUpdate = {
+		...state.elements,
+		[elementId]: updatedElement,
+	};
 
-		// Calculate proliferator consumption
-		const prolifConsumption = calculateProliferatorConsumption(
-			recipe.inputs,
-			recipe.timeSpend,
-			element.facility.speedMultiplier,
-			newModifier,
-			facilitiesNeeded,
-			prolifItemId,
-		);
+	for (let i = 0; i < element.inputs.length; i++) {
+		const childId = element.inputs[i];
+		const child = elementsWithUpdate[childId];
+		if (!child) continue;
 
-		// Update the element
-		const updatedElement: CalculationElement = {
-			...element,
-			facility: {
-				...element.facility,
-				modifier: newModifier,
-				proliferatorItemId: mode === "none" ? undefined : prolifItemId,
-			},
-			proliferatorConsumption: prolifConsumption ?? undefined,
-		};
+		const input = recipe.inputs[i];
+		if (!input) continue;
 
-		// Recalculate children's required rates
-		const elementsWithUpdate = {
-			...state.elements,
-			[elementId]: updatedElement,
-		};
+		const inputRate =
+			calculateRecipeInputRate(recipe, input.count, facility) *
+			facilitiesNeeded;
 
-		for (let i = 0; i < element.inputs.length; i++) {
-			const childId = element.inputs[i];
-			const child = elementsWithUpdate[childId];
-			if (!child) continue;
+		elementsWithUpdate[childId] = { ...child, requiredRate: inputRate };
+	}
 
-			const input = recipe.inputs[i];
-			if (!input) continue;
+	// Recalculate subtree
+	const subtreeUpdates: Record<string, CalculationElement> = {};
+	for (const childId of element.inputs) {
+		const childSubtreeUpdates = recalculateSubtree(
+			childId,
+			elementsWithUpdate,
+			getContext(state),
+		);
+		Object.assign(subtreeUpdates, childSubtreeUpdates);
+	}
 
-			const inputRate =
-				calculateInputRate(
-					input.count,
-					recipe.timeSpend,
-					element.facility.speedMultiplier,
-					newModifier,
-				) * facilitiesNeeded;
-
-			elementsWithUpdate[childId] = { ...child, requiredRate: inputRate };
+	return {
+		...state,
+		elements: { ...elementsWithUpdate, ...subtreeUpdates },
+	};
+}
+
+export function updateElementProliferator(
+	elementId: string,
+	mode: ProliferatorMode,
+	level: number,
+	proliferatorItemId?: number,
+): void {
+	updatePlan((state) =>
+		withElementProliferator(state, elementId, mode, level, proliferatorItemId),
+	);
+}
+
+/** Mode a policy gives a recipe, or null when it leaves the recipe alone */
+function getPolicyMode(
+	policy: ProliferatorPolicy,
+	recipe: RecipeData,
+): ProliferatorMode | null {
+	if (policy.mode === "productOrSpeed") {
+		return recipe.nonProductive ? "speed" : "product";
+	}
+	if (policy.mode === "product" && recipe.nonProductive) return null;
+	return policy.mode;
+}
+
+/**
+ * Sets a proliferator policy on every recipe element in scope, as if each had
+ * been edited on its own. Parents go first so their inputs already have the
+ * new rates by the time they are changed.
+ */
+export function applyProliferatorPolicy(
+	policy: ProliferatorPolicy,
+	scope: ProliferatorPolicyScope,
+): void {
+	updatePlan((state) => {
+		const roots =
+			scope.type === "target"
+				? state.targets.filter((t) => t.id === scope.targetId)
+				: state.targets;
+		const order: string[] = [];
+		const visited = new Set<string>();
+		const queue = roots.map((t) => t.rootElementId);
+		while (queue.length > 0) {
+			const id = queue.shift();
+			if (id === undefined || visited.has(id)) continue;
+			visited.add(id);
+			const element = state.elements[id];
+			if (!element) continue;
+			order.push(id);
+			queue.push(...element.inputs);
 		}
 
-		// Recalculate subtree
-		const subtreeUpdates: Record<string, CalculationElement> = {};
-		for (const childId of element.inputs) {
-			const childSubtreeUpdates = recalculateSubtree(
-				childId,
-				elementsWithUpdate,
-				getContext(),
+		const context = getContext(state);
+		let next = state;
+		for (const id of order) {
+			const element = next.elements[id];
+			if (element?.source?.type !== "recipe") continue;
+			const recipeSource = element.source as RecipeSource;
+			if (
+				scope.type === "recipeType" &&
+				recipeSource.recipeType !== scope.recipeType
+			) {
+				continue;
+			}
+			const recipe = context.getRecipeById(recipeSource.recipeId);
+			if (!recipe) continue;
+			const mode = getPolicyMode(policy, recipe);
+			if (mode === null) continue;
+			next = withElementProliferator(
+				next,
+				id,
+				mode,
+				mode === "none" ? 0 : policy.level,
 			);
-			Object.assign(subtreeUpdates, childSubtreeUpdates);
 		}
-
-		return {
-			...state,
-			elements: { ...elementsWithUpdate, ...subtreeUpdates },
-		};
+		return next;
 	});
 }
@@ -5,3 +5,31 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
 	return twMerge(clsx(inputs));
 }
+
+const POWER_UNITS = [
+	{ unit: "GW", watts: 1e9 },
+	{ unit: "MW", watts: 1e6 },
+	{ unit: "kW", watts: 1e3 },
+];
+
+/** Format watts with the largest fitting unit, e.g. "1.44 MW" */
+export function formatPower(watts: number): string {
+	for (const { unit, watts: size } of POWER_UNITS) {
+		if (watts >= size) return `${(watts / size).toFixed(2)} ${unit}`;
+	}
+	return `${watts.toFixed(0)} W`;
+}
+
+const ENERGY_UNITS = [
+	{ unit: "GJ", joules: 1e9 },
+	{ unit: "MJ", joules: 1e6 },
+	{ unit: "kJ", joules: 1e3 },
+];
+
+/** Format joules with the largest fitting unit, e.g. "2.70 MJ" */
+export function formatEnergy(joules: number): string {
+	for (const { unit, joules: size } of ENERGY_UNITS) {
+		if (joules >= size) return `${(joules / size).toFixed(2)} ${unit}`;
+	}
+	return `${joules.toFixed(0)} J`;
+}
@@ -10,8 +10,12 @@
 
 import { Route as rootRouteImport } from './routes/__root'
 import { Route as TotalsRouteImport } from './routes/totals'
+import { Route as TechsRouteImport } from './routes/techs'
+import { Route as RecipesRouteImport } from './routes/recipes'
 import { Route as CalculatorRouteImport } from './routes/calculator'
+import { Route as BuildingsRouteImport } from './routes/buildings'
 import { Route as IndexRouteImport } from './routes/index'
+import { Route as ItemsItemIdRouteImport } from './routes/items.$itemId'
 import { Route as DemoStoreRouteImport } from './routes/demo/store'
 
 const TotalsRoute = TotalsRouteImport.update({
@@ -19,16 +23,36 @@ const TotalsRoute = TotalsRouteImport.update({
   path: '/totals',
   getParentRoute: () => rootRouteImport,
 } as any)
+const TechsRoute = TechsRouteImport.update({
+  id: '/techs',
+  path: '/techs',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const RecipesRoute = RecipesRouteImport.update({
+  id: '/recipes',
+  path: '/recipes',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const CalculatorRoute = CalculatorRouteImport.update({
   id: '/calculator',
   path: '/calculator',
   getParentRoute: () => rootRouteImport,
 } as any)
+const BuildingsRoute = BuildingsRouteImport.update({
+  id: '/buildings',
+  path: '/buildings',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const IndexRoute = IndexRouteImport.update({
   id: '/',
   path: '/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ItemsItemIdRoute = ItemsItemIdRouteImport.update({
+  id: '/items/$itemId',
+  path: '/items/$itemId',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const DemoStoreRoute = DemoStoreRouteImport.update({
   id: '/demo/store',
   path: '/demo/store',
@@ -37,36 +61,77 @@ const DemoStoreRoute = DemoStoreRouteImport.update({
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
+  '/buildings': typeof BuildingsRoute
   '/calculator': typeof CalculatorRoute
+  '/recipes': typeof RecipesRoute
+  '/techs': typeof TechsRoute
   '/totals': typeof TotalsRoute
   '/demo/store': typeof DemoStoreRoute
+  '/items/$itemId': typeof ItemsItemIdRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/buildings': typeof BuildingsRoute
   '/calculator': typeof CalculatorRoute
+  '/recipes': typeof RecipesRoute
+  '/techs': typeof TechsRoute
   '/totals': typeof TotalsRoute
   '/demo/store': typeof DemoStoreRoute
+  '/items/$itemId': typeof ItemsItemIdRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
+  '/buildings': typeof BuildingsRoute
   '/calculator': typeof CalculatorRoute
+  '/recipes': typeof RecipesRoute
+  '/techs': typeof TechsRoute
   '/totals': typeof TotalsRoute
   '/demo/store': typeof DemoStoreRoute
+  '/items/$itemId': typeof ItemsItemIdRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/' | '/calculator' | '/totals' | '/demo/store'
+  fullPaths:
+    | '/'
+    | '/buildings'
+    | '/calculator'
+    | '/recipes'
+    | '/techs'
+    | '/totals'
+    | '/demo/store'
+    | '/items/$itemId'
   fileRoutesByTo: FileRoutesByTo
-  to: '/' | '/calculator' | '/totals' | '/demo/store'
-  id: '__root__' | '/' | '/calculator' | '/totals' | '/demo/store'
+  to:
+    | '/'
+    | '/buildings'
+    | '/calculator'
+    | '/recipes'
+    | '/techs'
+    | '/totals'
+    | '/demo/store'
+    | '/items/$itemId'
+  id:
+    | '__root__'
+    | '/'
+    | '/buildings'
+    | '/calculator'
+    | '/recipes'
+    | '/techs'
+    | '/totals'
+    | '/demo/store'
+    | '/items/$itemId'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
+  BuildingsRoute: typeof BuildingsRoute
   CalculatorRoute: typeof CalculatorRoute
+  RecipesRoute: typeof RecipesRoute
+  TechsRoute: typeof TechsRoute
   TotalsRoute: typeof TotalsRoute
   DemoStoreRoute: typeof DemoStoreRoute
+  ItemsItemIdRoute: typeof ItemsItemIdRoute
 }
 
 declare module '@tanstack/react-router' {
@@ -78,6 +143,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof TotalsRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/techs': {
+      id: '/techs'
+      path: '/techs'
+      fullPath: '/techs'
+      preLoaderRoute: typeof TechsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/recipes': {
+      id: '/recipes'
+      path: '/recipes'
+      fullPath: '/recipes'
+      preLoaderRoute: typeof RecipesRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/calculator': {
       id: '/calculator'
       path: '/calculator'
@@ -85,6 +164,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof CalculatorRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/buildings': {
+      id: '/buildings'
+      path: '/buildings'
+      fullPath: '/buildings'
+      preLoaderRoute: typeof BuildingsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/': {
       id: '/'
       path: '/'
@@ -92,6 +178,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof IndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/items/$itemId': {
+      id: '/items/$itemId'
+      path: '/items/$itemId'
+      fullPath: '/items/$itemId'
+      preLoaderRoute: typeof ItemsItemIdRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/demo/store': {
       id: '/demo/store'
       path: '/demo/store'
@@ -104,9 +197,13 @@ declare module '@tanstack/react-router' {
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
+  BuildingsRoute: BuildingsRoute,
   CalculatorRoute: CalculatorRoute,
+  RecipesRoute: RecipesRoute,
+  TechsRoute: TechsRoute,
   TotalsRoute: TotalsRoute,
   DemoStoreRoute: DemoStoreRoute,
+  ItemsItemIdRoute: ItemsItemIdRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
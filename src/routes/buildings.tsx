@@ -0,0 +1,15 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { BuildingReference } from "@/components/reference/BuildingReference";
+
+export const Route = createFileRoute("/buildings")({
+	component: BuildingsPage,
+	ssr: false,
+});
+
+function BuildingsPage() {
+	return (
+		<div className="h-full overflow-y-auto">
+			<BuildingReference />
+		</div>
+	);
+}
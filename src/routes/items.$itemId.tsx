@@ -0,0 +1,16 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { ItemDetails } from "@/components/reference/ItemDetails";
+
+export const Route = createFileRoute("/items/$itemId")({
+	component: ItemPage,
+	ssr: false,
+});
+
+function ItemPage() {
+	const { itemId } = Route.useParams();
+	return (
+		<div className="h-full overflow-y-auto">
+			<ItemDetails itemId={Number(itemId)} />
+		</div>
+	);
+}
@@ -0,0 +1,15 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { RecipeBrowser } from "@/components/reference/RecipeBrowser";
+
+export const Route = createFileRoute("/recipes")({
+	component: RecipesPage,
+	ssr: false,
+});
+
+function RecipesPage() {
+	return (
+		<div className="h-full overflow-y-auto">
+			<RecipeBrowser />
+		</div>
+	);
+}
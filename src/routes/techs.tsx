@@ -0,0 +1,15 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { TechTreeGraph } from "@/components/graph/TechTreeGraph";
+
+export const Route = createFileRoute("/techs")({
+	component: TechsPage,
+	ssr: false,
+});
+
+function TechsPage() {
+	return (
+		<div className="h-full">
+			<TechTreeGraph />
+		</div>
+	);
+}